@@ -0,0 +1,156 @@
+/**
+ * History memory benchmark
+ *
+ * Replays a long pen session through the old snapshot history (a copy of the
+ * shapes array per step) and through the patch history, then reports how much
+ * heap each one still holds. The strokes are created up front and shared by
+ * both, so the figures are what history keeps alive on top of the shapes.
+ *
+ * Usage: npm run bench:history [-- <stroke count>]
+ */
+
+import { setFlagsFromString } from 'node:v8'
+import { runInNewContext } from 'node:vm'
+import type { Point, Shape, HistoryEntry } from '../src/store/types'
+import { createShape } from '../src/store/utils'
+import { addToHistory } from '../src/store/history'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+const DEFAULT_STROKE_COUNT = 1000
+const POINTS_PER_STROKE = 40
+const HISTORY_SIZE_LIMIT = 50
+
+// Each design is recorded this many times and the median kept, to smooth out GC noise
+const RUNS = 5
+
+// ============================================================================
+// Session Replay
+// ============================================================================
+
+const createStrokes = (strokeCount: number): Shape[] => {
+  return Array.from({ length: strokeCount }, (_, stroke) => {
+    const points: Point[] = Array.from({ length: POINTS_PER_STROKE }, (_, i) => ({
+      x: (stroke % 40) * 20 + i * 2,
+      y: Math.floor(stroke / 40) * 20 + Math.sin(i / 4) * 8
+    }))
+    return createShape(points, '#000000', 'pen')
+  })
+}
+
+/**
+ * The history as it was before patches: a full copy of the shapes per step
+ */
+const recordSnapshots = (strokes: Shape[], maxHistorySize: number): Shape[][] => {
+  let shapes: Shape[] = []
+  let history: Shape[][] = [[]]
+
+  strokes.forEach(stroke => {
+    shapes = [...shapes, stroke]
+    history = [...history, [...shapes]]
+    if (history.length > maxHistorySize) history = history.slice(-maxHistorySize)
+  })
+
+  return history
+}
+
+const recordPatches = (strokes: Shape[], maxHistorySize: number): HistoryEntry[] => {
+  let shapes: Shape[] = []
+  let history: HistoryEntry[] = []
+  let historyIndex = 0
+
+  strokes.forEach(stroke => {
+    const nextShapes = [...shapes, stroke]
+    ;({ history, historyIndex } = addToHistory(
+      history,
+      historyIndex,
+      shapes,
+      nextShapes,
+      'draw',
+      'linear',
+      maxHistorySize === Infinity ? { type: 'unlimited' } : { type: 'entries', maxEntries: maxHistorySize }
+    ))
+    shapes = nextShapes
+  })
+
+  return history
+}
+
+// ============================================================================
+// Measurement
+// ============================================================================
+
+// Forced collections keep garbage from the replay out of the heap figures
+setFlagsFromString('--expose-gc')
+const collectGarbage = runInNewContext('gc') as () => void
+
+interface Measurement {
+  /** Steps kept */
+  entries: number
+  /** Heap still in use once the history is recorded (bytes) */
+  heapBytes: number
+  /** Time to record every stroke (ms) */
+  duration: number
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.floor(sorted.length / 2)]
+}
+
+/**
+ * Records a history RUNS times, keeping the median heapUsed delta and time
+ */
+const measure = (record: () => unknown[]): Measurement => {
+  const runs = Array.from({ length: RUNS }, () => {
+    collectGarbage()
+    const heapBefore = process.memoryUsage().heapUsed
+    const start = performance.now()
+    const history = record()
+    const duration = performance.now() - start
+    collectGarbage()
+    const heapBytes = process.memoryUsage().heapUsed - heapBefore
+    // Reading the history after the collection keeps it alive through it
+    return { entries: history.length, heapBytes, duration }
+  })
+
+  return {
+    entries: runs[0].entries,
+    heapBytes: median(runs.map(run => run.heapBytes)),
+    duration: median(runs.map(run => run.duration))
+  }
+}
+
+const formatBytes = (bytes: number): string => {
+  return Math.abs(bytes) < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+}
+
+// ============================================================================
+// Report
+// ============================================================================
+
+const strokeCount = Number(process.argv[2] ?? DEFAULT_STROKE_COUNT)
+if (!Number.isInteger(strokeCount) || strokeCount <= 0) {
+  console.error(`Expected a positive stroke count, got "${process.argv[2]}"`)
+  process.exit(1)
+}
+
+const strokes = createStrokes(strokeCount)
+
+const results: Record<string, Measurement> = {
+  [`Snapshots (${HISTORY_SIZE_LIMIT} steps)`]: measure(() => recordSnapshots(strokes, HISTORY_SIZE_LIMIT)),
+  'Snapshots (all steps)': measure(() => recordSnapshots(strokes, Infinity)),
+  [`Patches (${HISTORY_SIZE_LIMIT} steps)`]: measure(() => recordPatches(strokes, HISTORY_SIZE_LIMIT)),
+  'Patches (all steps)': measure(() => recordPatches(strokes, Infinity))
+}
+
+console.log(`${strokeCount} pen strokes of ${POINTS_PER_STROKE} points, median of ${RUNS} runs\n`)
+console.table(Object.fromEntries(Object.entries(results).map(([label, result]) => [label, {
+  'Steps': result.entries,
+  'Heap used': formatBytes(result.heapBytes),
+  'Recording (ms)': Number(result.duration.toFixed(1))
+}])))
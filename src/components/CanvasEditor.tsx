@@ -1,22 +1,204 @@
-import { useRef, useEffect, useCallback } from 'react'
+import { useRef, useEffect, useLayoutEffect, useCallback, useMemo, useState } from 'react'
 import './CanvasEditor.css'
-import type { Point } from '../store/types'
+import type { Point, Shape, ShapeOptions, SelectionFrame, ShapeTransform } from '../store/types'
+import { DEFAULT_TEXT_STYLE } from '../store/types'
+import {
+  renderAllShapes,
+  renderCurrentPath,
+  findShapesAlongPath,
+  eraseTouchedShapes,
+  findFillTarget,
+  findTextShapeAt,
+  shouldClosePolygonAt,
+  snapDrawingPoint,
+  snapPointToGrid,
+  isGuideTool,
+  updateShapes
+} from '../store/utils'
+import type { Bounds } from '../store/hitTesting'
+import { findShapeAt, DEFAULT_HIT_TOLERANCE } from '../store/hitTesting'
+import {
+  applyViewportTransform,
+  documentToScreen,
+  screenToDocument,
+  getVisibleBounds,
+  getShapesBounds
+} from '../store/viewport'
+import { buildSpatialIndex } from '../store/spatialIndex'
+import type { AlignmentGuide } from '../store/smartGuides'
+import {
+  GUIDE_SNAP_DISTANCE,
+  findGuideCandidates,
+  snapPointToGuides,
+  snapBoundsToGuides,
+  renderGuides
+} from '../store/smartGuides'
+import type { TransformHandle } from '../store/transform'
+import {
+  getSelectionFrame,
+  isPointInFrame,
+  findHandleAt,
+  getHandleTransform,
+  transformFrame,
+  isIdentityTransform,
+  applyShapeTransform,
+  renderSelectionFrame
+} from '../store/transform'
 import { useCanvasStore } from '../hooks'
+import { InlineTextEditor } from './InlineTextEditor'
+import type { TextEditSession } from './InlineTextEditor'
 
 /**
  * CanvasEditor Component
  * 
  * Provides an interactive HTML canvas that supports:
- * - Freehand drawing with mouse and touch events
- * - Responsive sizing that fills most of the viewport
+ * - Pen, brush, marker, line, arrow, rectangle, circle, ellipse and polygon drawing
+ *   (polygons close on double-click or on the first vertex)
+ * - Mouse, touch and stylus input through Pointer Events; the pointer that starts
+ *   a stroke owns it, and stylus pressure varies the pen width
+ * - Text placed with the text tool and edited in place (click it with the text tool, or
+ *   double-click it with the select tool)
+ * - Select tool: click shapes to select them (Shift adds), drag to move them, and drag
+ *   the frame's handles to resize (Shift keeps proportions) or rotate (Shift snaps to 15°);
+ *   the drag is previewed live and committed as one undoable step on release
+ * - Right-click menu to change the paint order of the selection (or the shape clicked)
+ * - Live preview of the shape being drawn, and of what the eraser removes
+ * - Shift/Alt constraints: squares, horizontal-radius circles, 15° lines and arrows,
+ *   rectangles and ellipses from the center
+ * - Optional grid behind the shapes; geometric tools snap to it (hold Ctrl/Cmd to draw freely)
+ * - Smart guides: rectangles, circles and ellipses snap to the edges and centers of
+ *   the shapes in view, with dashed guide lines drawn over the canvas
+ * - Pan (wheel or middle-button drag) and zoom (Ctrl/Cmd + wheel or pinch) of the
+ *   view; input is converted to document coordinates before it reaches the store
+ * - Responsive sizing that fills most of the viewport, sharp at any devicePixelRatio
  * - Integration with universal store for state management
  * 
  * Now connected to our universal store system for consistent state management.
  */
 
+/**
+ * Zoom factor of the view control buttons
+ */
+const ZOOM_STEP = 1.25
+
+/**
+ * How strongly wheel scrolling zooms (per pixel of scroll)
+ */
+const WHEEL_ZOOM_SPEED = 0.002
+
+/**
+ * Pixels per line for wheel events that scroll by lines (Firefox)
+ */
+const WHEEL_LINE_HEIGHT = 16
+
+/**
+ * Closest grid lines are allowed to get on screen (in CSS pixels) before
+ * every other line is skipped
+ */
+const MIN_GRID_SCREEN_SPACING = 8
+
+/**
+ * Color of the grid lines
+ */
+const GRID_LINE_COLOR = '#e9ecef'
+
+/**
+ * Cursors over the selection frame's handles and over the selected shapes
+ */
+const SELECTION_CURSORS: Record<TransformHandle | 'move', string> = {
+  nw: 'nwse-resize',
+  se: 'nwse-resize',
+  ne: 'nesw-resize',
+  sw: 'nesw-resize',
+  n: 'ns-resize',
+  s: 'ns-resize',
+  e: 'ew-resize',
+  w: 'ew-resize',
+  rotate: 'grab',
+  move: 'move'
+}
+
+/**
+ * A select tool drag in progress - the shapes, or a handle of their frame
+ */
+interface SelectionDrag {
+  handle: TransformHandle | 'move'
+  
+  /** Shapes being dragged, with their frame and bounds when the drag started */
+  shapeIds: string[]
+  frame: SelectionFrame
+  bounds: Bounds
+  
+  /** Document points where the drag started and where the pointer is now */
+  start: Point
+  current: Point
+  
+  /** Shift held: keep proportions, snap rotation to 15° steps */
+  constrain: boolean
+  
+  /** Ctrl/Cmd held: move without snapping to the grid or guides */
+  free: boolean
+}
+
+/**
+ * Shapes touched so far by the eraser drag in progress
+ * The preview tests only the path added since the last pointer move
+ */
+interface EraserPreview {
+  /** The shapes and the first point of the drag the touches were found for */
+  shapes: Shape[]
+  start: Point
+  
+  /** Points of the path already tested */
+  testedLength: number
+  touchedIds: ReadonlySet<string>
+}
+
+/**
+ * Text edit session for an existing text shape
+ */
+const createTextEditSession = (shape: Shape): TextEditSession => ({
+  shapeId: shape.id,
+  anchor: shape.points[0],
+  initialText: shape.text ?? '',
+  color: shape.color,
+  fontSize: shape.fontSize ?? DEFAULT_TEXT_STYLE.fontSize,
+  fontFamily: shape.fontFamily ?? DEFAULT_TEXT_STYLE.fontFamily
+})
+
 export const CanvasEditor: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const canvasStore = useCanvasStore()
+  
+  // Pointer that owns the stroke in progress; other pointers (e.g. a second finger) are ignored
+  const activePointerRef = useRef<number | null>(null)
+  
+  // Last screen point of a middle-button pan in progress
+  const panPointRef = useRef<Point | null>(null)
+  
+  // Shapes the eraser drag has touched, carried between pointer moves
+  const [eraserPreview, setEraserPreview] = useState<EraserPreview | null>(null)
+  
+  // Display size of the canvas in CSS pixels, and the device pixels per CSS pixel
+  const [canvasSize, setCanvasSize] = useState({ width: 0, height: 0, pixelRatio: 1 })
+  
+  // Smart guides the shape being drawn currently lines up with
+  const [guides, setGuides] = useState<AlignmentGuide[]>([])
+  
+  // Select tool drag, previewed locally until it is committed on release
+  const [selectionDrag, setSelectionDrag] = useState<SelectionDrag | null>(null)
+  
+  // What the select tool would grab under the pointer, for the cursor
+  const [hoverTarget, setHoverTarget] = useState<TransformHandle | 'move' | null>(null)
+  
+  // Position of the open context menu inside the editor, if any
+  const [contextMenu, setContextMenu] = useState<Point | null>(null)
+  
+  // Inline text editing is local UI state until the edit is committed to the store
+  const [textEdit, setTextEdit] = useState<{
+    session: TextEditSession
+    canvasOffset: Point
+  } | null>(null)
 
   // Initialize canvas context and setup
   useEffect(() => {
@@ -32,12 +214,14 @@ export const CanvasEditor: React.FC = () => {
     ctx.lineWidth = 2
     ctx.strokeStyle = '#000000'
 
-    // Set canvas size to match display size
+    // Set canvas size to match display size; resizing clears the canvas, and the
+    // redraw sets the viewport transform from scratch for the new pixel ratio
     const resizeCanvas = () => {
       const rect = canvas.getBoundingClientRect()
-      canvas.width = rect.width * window.devicePixelRatio
-      canvas.height = rect.height * window.devicePixelRatio
-      ctx.scale(window.devicePixelRatio, window.devicePixelRatio)
+      const pixelRatio = window.devicePixelRatio
+      canvas.width = rect.width * pixelRatio
+      canvas.height = rect.height * pixelRatio
+      setCanvasSize({ width: rect.width, height: rect.height, pixelRatio })
     }
 
     resizeCanvas()
@@ -48,7 +232,157 @@ export const CanvasEditor: React.FC = () => {
     }
   }, [])
 
-  // Redraw canvas when shapes change
+  const { shapes, currentPath, currentColor, currentTool, isDrawing, eraserMode } = canvasStore
+  const { viewport, grid, drawingModifiers, setDrawingModifiers, pan, zoomAt } = canvasStore
+  const { selectedShapeIds } = canvasStore
+  const {
+    currentStrokeWidth,
+    currentOpacity,
+    currentDash,
+    currentFillColor,
+    currentArrowheads,
+    strokeProcessing
+  } = canvasStore
+
+  // Styling the shape being drawn will get once it is committed
+  const previewOptions = useMemo<ShapeOptions>(() => ({
+    strokeWidth: currentStrokeWidth,
+    opacity: currentOpacity,
+    dash: currentDash,
+    fillColor: currentFillColor,
+    arrowheads: currentArrowheads,
+    smooth: strokeProcessing.smoothing
+  }), [
+    currentStrokeWidth,
+    currentOpacity,
+    currentDash,
+    currentFillColor,
+    currentArrowheads,
+    strokeProcessing.smoothing
+  ])
+
+  // The grid is a CSS background of the canvas, so it sits behind the shapes and
+  // never needs a redraw; when zoomed out, lines are skipped to keep them apart
+  const gridStyle = useMemo<React.CSSProperties | undefined>(() => {
+    if (!grid.visible || grid.spacing <= 0) return undefined
+    
+    let screenSpacing = grid.spacing * viewport.zoom
+    while (screenSpacing < MIN_GRID_SCREEN_SPACING) screenSpacing *= 2
+    
+    return {
+      backgroundImage: [
+        `linear-gradient(to right, ${GRID_LINE_COLOR} 1px, transparent 1px)`,
+        `linear-gradient(to bottom, ${GRID_LINE_COLOR} 1px, transparent 1px)`
+      ].join(', '),
+      backgroundSize: `${screenSpacing}px ${screenSpacing}px`,
+      backgroundPosition: `${-viewport.offsetX * viewport.zoom}px ${-viewport.offsetY * viewport.zoom}px`
+    }
+  }, [grid, viewport])
+
+  // Shapes bucketed by bounding box, so smart guides and the eraser only look at nearby shapes
+  const spatialIndex = useMemo(() => buildSpatialIndex(shapes), [shapes])
+
+  const selectedShapes = useMemo(() => {
+    const selectedIds = new Set(selectedShapeIds)
+    return shapes.filter(shape => selectedIds.has(shape.id))
+  }, [shapes, selectedShapeIds])
+
+  const selectionFrame = useMemo(() => getSelectionFrame(selectedShapes), [selectedShapes])
+
+  // Clicks reach the same screen distance at any zoom, like the handles and guides
+  const hitTolerance = DEFAULT_HIT_TOLERANCE / viewport.zoom
+
+  // Transform of the select tool drag in progress, and the smart guides a move lines up with.
+  // Moves snap the dragged shapes' bounds; guides win over the grid on the axes they snap
+  const dragPreview = useMemo<{
+    transform: ShapeTransform
+    guides: AlignmentGuide[]
+  } | null>(() => {
+    if (!selectionDrag) return null
+    
+    const { handle, frame, bounds, start, current } = selectionDrag
+    if (handle !== 'move') {
+      return {
+        transform: getHandleTransform(frame, handle, start, current, selectionDrag.constrain),
+        guides: []
+      }
+    }
+    
+    const dx = current.x - start.x
+    const dy = current.y - start.y
+    if (selectionDrag.free) return { transform: { type: 'move', dx, dy }, guides: [] }
+    
+    const corner = { x: bounds.minX + dx, y: bounds.minY + dy }
+    const gridCorner = grid.snap ? snapPointToGrid(corner, grid.spacing) : corner
+    let snapped = { dx: gridCorner.x - bounds.minX, dy: gridCorner.y - bounds.minY }
+    if (!grid.guides) return { transform: { type: 'move', ...snapped }, guides: [] }
+    
+    const draggedIds = new Set(selectionDrag.shapeIds)
+    const movedBounds = { minX: bounds.minX + dx, minY: bounds.minY + dy, maxX: bounds.maxX + dx, maxY: bounds.maxY + dy }
+    const threshold = GUIDE_SNAP_DISTANCE / viewport.zoom
+    const candidates = findGuideCandidates(
+      spatialIndex,
+      movedBounds,
+      getVisibleBounds(viewport, canvasSize.width, canvasSize.height),
+      threshold
+    ).filter(entry => !draggedIds.has(entry.shape.id))
+    const guideSnap = snapBoundsToGuides(movedBounds, candidates, threshold)
+    const hasGuideOn = (axis: AlignmentGuide['axis']) => guideSnap.guides.some(guide => guide.axis === axis)
+    snapped = {
+      dx: hasGuideOn('x') ? dx + guideSnap.dx : snapped.dx,
+      dy: hasGuideOn('y') ? dy + guideSnap.dy : snapped.dy
+    }
+    
+    return { transform: { type: 'move', ...snapped }, guides: guideSnap.guides }
+  }, [selectionDrag, grid, spatialIndex, viewport, canvasSize])
+
+  const editingShapeId = textEdit?.session.shapeId ?? null
+
+  // Touches found earlier in this drag still hold, so each move only tests the new
+  // segment. Runs before paint so the preview never lags the pointer by a frame
+  useLayoutEffect(() => {
+    if (!isDrawing || currentTool !== 'eraser' || currentPath.length === 0) {
+      setEraserPreview(null)
+      return
+    }
+    
+    setEraserPreview(previous => {
+      const isSameDrag = previous !== null &&
+        previous.shapes === shapes &&
+        previous.start === currentPath[0] &&
+        previous.testedLength <= currentPath.length
+      if (isSameDrag && previous.testedLength === currentPath.length) return previous
+      
+      const testedLength = isSameDrag ? previous.testedLength : 0
+      const touchedIds = new Set(isSameDrag ? previous.touchedIds : [])
+      const newSegment = currentPath.slice(Math.max(0, testedLength - 1))
+      findShapesAlongPath(spatialIndex, newSegment).forEach(shape => touchedIds.add(shape.id))
+      
+      return { shapes, start: currentPath[0], testedLength: currentPath.length, touchedIds }
+    })
+  }, [shapes, spatialIndex, currentPath, currentTool, isDrawing])
+
+  // While erasing or dragging a selection, show the canvas as it will look once the
+  // drag is committed; text being edited is shown by the editor instead
+  const displayedShapes = useMemo(() => {
+    if (editingShapeId) return shapes.filter(shape => shape.id !== editingShapeId)
+    if (dragPreview && selectionDrag) {
+      return updateShapes(shapes, selectionDrag.shapeIds, shape => applyShapeTransform(shape, dragPreview.transform))
+    }
+    if (!isDrawing || currentTool !== 'eraser' || !eraserPreview) return shapes
+    
+    // Until the preview catches up with a new drag, the canvas shows as it was
+    if (eraserPreview.shapes !== shapes || eraserPreview.start !== currentPath[0]) return shapes
+    
+    return eraseTouchedShapes(shapes, eraserPreview.touchedIds, currentPath, eraserMode)
+  }, [shapes, currentPath, currentTool, isDrawing, eraserMode, eraserPreview, editingShapeId, dragPreview, selectionDrag])
+
+  // The frame follows the drag, so a rotated group shows its rotated frame until release
+  const displayedFrame = selectionDrag && dragPreview
+    ? transformFrame(selectionDrag.frame, dragPreview.transform)
+    : selectionFrame
+
+  // Redraw canvas when shapes or the in-progress path change
   useEffect(() => {
     const canvas = canvasRef.current
     if (!canvas) return
@@ -56,123 +390,537 @@ export const CanvasEditor: React.FC = () => {
     const ctx = canvas.getContext('2d')
     if (!ctx) return
 
-    // Clear canvas
-    ctx.clearRect(0, 0, canvas.width / window.devicePixelRatio, canvas.height / window.devicePixelRatio)
+    // Shapes are drawn in document coordinates through the viewport transform
+    applyViewportTransform(ctx, viewport, canvasSize.pixelRatio)
     
-    // Draw all shapes
-    canvasStore.shapes.forEach(shape => {
-      if (shape.points.length < 2) return
-      
-      ctx.beginPath()
-      ctx.strokeStyle = shape.color
-      ctx.lineWidth = 2
-      ctx.lineCap = 'round'
-      ctx.lineJoin = 'round'
-      
-      const firstPoint = shape.points[0]
-      ctx.moveTo(firstPoint.x, firstPoint.y)
+    // Committed shapes go through the shared renderer so every tool draws correctly
+    renderAllShapes(ctx, displayedShapes)
+    
+    // Live preview of the shape being drawn (rectangle/circle outline, not the raw stroke)
+    if (isDrawing) {
+      renderCurrentPath(ctx, currentPath, currentColor, currentTool, previewOptions, drawingModifiers)
+      renderGuides(ctx, guides, viewport.zoom)
+    }
+    
+    // The select tool shows the selection frame with its handles on top
+    if (currentTool === 'select' && displayedFrame) {
+      renderSelectionFrame(ctx, displayedFrame, viewport.zoom)
+      renderGuides(ctx, dragPreview?.guides ?? [], viewport.zoom)
+    }
+  }, [
+    displayedShapes,
+    currentPath,
+    currentColor,
+    currentTool,
+    previewOptions,
+    drawingModifiers,
+    isDrawing,
+    viewport,
+    canvasSize,
+    guides,
+    displayedFrame,
+    dragPreview
+  ])
+
+  // Shift/Alt constrain the shape being drawn. They live in the store so that the
+  // preview and finishDrawing apply the same constraints
+  const syncDrawingModifiers = useCallback((event: { shiftKey: boolean; altKey: boolean }) => {
+    if (event.shiftKey === drawingModifiers.shift && event.altKey === drawingModifiers.alt) return
+    setDrawingModifiers({ shift: event.shiftKey, alt: event.altKey })
+  }, [drawingModifiers, setDrawingModifiers])
+
+  // Pressing or releasing a modifier mid-drag updates the shape without moving the pointer
+  useEffect(() => {
+    if (!isDrawing) return
+
+    const handleModifierKey = (event: KeyboardEvent) => {
+      if (event.key !== 'Shift' && event.key !== 'Alt') return
+      // Keep Alt from focusing the browser menu bar while drawing
+      event.preventDefault()
+      syncDrawingModifiers(event)
+    }
+
+    window.addEventListener('keydown', handleModifierKey)
+    window.addEventListener('keyup', handleModifierKey)
+    return () => {
+      window.removeEventListener('keydown', handleModifierKey)
+      window.removeEventListener('keyup', handleModifierKey)
+    }
+  }, [isDrawing, syncDrawingModifiers])
+
+  // Wheel pans the view; Ctrl/Cmd + wheel (and trackpad pinch) zooms around the pointer.
+  // React wheel listeners are passive, so this one is attached directly to allow preventDefault
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault()
       
-      for (let i = 1; i < shape.points.length; i++) {
-        const point = shape.points[i]
-        ctx.lineTo(point.x, point.y)
+      const scale = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? WHEEL_LINE_HEIGHT : 1
+      if (event.ctrlKey || event.metaKey) {
+        const rect = canvas.getBoundingClientRect()
+        const point = { x: event.clientX - rect.left, y: event.clientY - rect.top }
+        zoomAt(point, Math.exp(-event.deltaY * scale * WHEEL_ZOOM_SPEED))
+      } else {
+        pan(-event.deltaX * scale, -event.deltaY * scale)
       }
-      
-      ctx.stroke()
-    })
-  }, [canvasStore.shapes])
+    }
 
-  // Get point coordinates relative to canvas
-  const getPointFromEvent = useCallback((event: MouseEvent | TouchEvent): Point => {
+    canvas.addEventListener('wheel', handleWheel, { passive: false })
+    return () => {
+      canvas.removeEventListener('wheel', handleWheel)
+    }
+  }, [pan, zoomAt])
+
+  // Get point coordinates relative to canvas in CSS pixels, with the sample time and stylus pressure
+  const getScreenPoint = useCallback((event: MouseEvent): Point => {
     const canvas = canvasRef.current
     if (!canvas) return { x: 0, y: 0 }
 
     const rect = canvas.getBoundingClientRect()
-    let clientX: number, clientY: number
-
-    if (event instanceof MouseEvent) {
-      clientX = event.clientX
-      clientY = event.clientY
-    } else {
-      // Touch event
-      const touch = event.touches[0] || event.changedTouches[0]
-      clientX = touch.clientX
-      clientY = touch.clientY
+    const point: Point = {
+      x: event.clientX - rect.left,
+      y: event.clientY - rect.top,
+      t: performance.timeOrigin + event.timeStamp
+    }
+    
+    // Mice and touch screens report a fixed pressure, so only styluses record it
+    if (event instanceof PointerEvent && event.pointerType === 'pen') {
+      point.pressure = event.pressure
     }
+    return point
+  }, [])
+
+  // Get point coordinates in the document, which is what the store works in
+  const getPointFromEvent = useCallback((event: MouseEvent): Point => {
+    return screenToDocument(viewport, getScreenPoint(event))
+  }, [viewport, getScreenPoint])
 
+  // Get the point a drawing tool uses and the smart guides it lines up with.
+  // Guides win over the grid on the axes they snap; Ctrl/Cmd turns all snapping off
+  const getDrawingPoint = useCallback((event: MouseEvent): {
+    point: Point
+    guides: AlignmentGuide[]
+  } => {
+    const point = getPointFromEvent(event)
+    if (event.ctrlKey || event.metaKey) return { point, guides: [] }
+    
+    const gridPoint = snapDrawingPoint(point, grid, currentTool)
+    if (!grid.guides || !isGuideTool(currentTool)) return { point: gridPoint, guides: [] }
+    
+    const threshold = GUIDE_SNAP_DISTANCE / viewport.zoom
+    const candidates = findGuideCandidates(
+      spatialIndex,
+      { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y },
+      getVisibleBounds(viewport, canvasSize.width, canvasSize.height),
+      threshold
+    )
+    const snapped = snapPointToGuides(point, candidates, threshold)
+    const hasGuideOn = (axis: AlignmentGuide['axis']) => snapped.guides.some(guide => guide.axis === axis)
+    
     return {
-      x: clientX - rect.left,
-      y: clientY - rect.top
+      point: {
+        ...point,
+        x: hasGuideOn('x') ? snapped.point.x : gridPoint.x,
+        y: hasGuideOn('y') ? snapped.point.y : gridPoint.y
+      },
+      guides: snapped.guides
     }
+  }, [getPointFromEvent, grid, currentTool, spatialIndex, viewport, canvasSize])
+
+  // Open the inline editor for a text edit session
+  const openTextEditor = useCallback((session: TextEditSession) => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    setTextEdit({
+      session,
+      canvasOffset: { x: canvas.offsetLeft, y: canvas.offsetTop }
+    })
   }, [])
 
-  // Start drawing
-  const startDrawing = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+  // Commit the edited text as a new text shape or an edit of an existing one
+  const commitTextEdit = useCallback((text: string) => {
+    if (!textEdit) return
+    const { session } = textEdit
+
+    if (session.shapeId) {
+      canvasStore.updateText(session.shapeId, text)
+    } else if (text.trim() !== '') {
+      canvasStore.addShape({
+        points: [session.anchor],
+        color: session.color,
+        type: 'text',
+        text,
+        fontSize: session.fontSize,
+        fontFamily: session.fontFamily,
+        opacity: canvasStore.currentOpacity
+      })
+    }
+    setTextEdit(null)
+  }, [textEdit, canvasStore])
+
+  // Start drawing, or panning with the middle button
+  const handlePointerDown = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    setContextMenu(null)
+    if (activePointerRef.current !== null) return
+    
+    if (event.button === 1) {
+      event.preventDefault()
+      activePointerRef.current = event.pointerId
+      event.currentTarget.setPointerCapture(event.pointerId)
+      panPointRef.current = getScreenPoint(event.nativeEvent)
+      return
+    }
+    
+    // Only the primary button draws, and only one pointer at a time
+    if (event.button !== 0) return
+    
+    // Clicking away from the text editor lets it blur, which commits the edit
+    if (textEdit) return
     event.preventDefault()
     
     const point = getPointFromEvent(event.nativeEvent)
-    canvasStore.startDrawing(point)
-
-    const canvas = canvasRef.current
-    const ctx = canvas?.getContext('2d')
-    if (ctx) {
-      ctx.strokeStyle = canvasStore.currentColor
-      ctx.lineWidth = 2
-      ctx.beginPath()
-      ctx.moveTo(point.x, point.y)
+    
+    // The text tool edits the text under the click, or places new text
+    if (canvasStore.currentTool === 'text') {
+      const existingText = findTextShapeAt(canvasStore.shapes, point, hitTolerance)
+      openTextEditor(existingText ? createTextEditSession(existingText) : {
+        shapeId: null,
+        anchor: point,
+        initialText: '',
+        color: canvasStore.currentColor,
+        fontSize: canvasStore.currentFontSize,
+        fontFamily: canvasStore.currentFontFamily
+      })
+      return
+    }
+    
+    // The fill bucket fills the shape under the click instead of drawing
+    if (canvasStore.currentTool === 'fill') {
+      const target = findFillTarget(canvasStore.shapes, point, hitTolerance)
+      if (target) {
+        canvasStore.setShapeFill(target.id, canvasStore.currentFillColor)
+      }
+      return
+    }
+    
+    // The select tool drags the handle or shape under the click, or changes the selection
+    if (canvasStore.currentTool === 'select') {
+      const handle = selectionFrame ? findHandleAt(selectionFrame, point, viewport.zoom) : null
+      const hitShape = handle ? null : findShapeAt(canvasStore.shapes, point, { tolerance: hitTolerance })
+      let dragShapes = selectedShapes
+      
+      if (hitShape && event.shiftKey) {
+        canvasStore.selectShape(hitShape.id, true)
+        return
+      }
+      if (hitShape && !canvasStore.selectedShapeIds.includes(hitShape.id)) {
+        canvasStore.selectShape(hitShape.id)
+        dragShapes = [hitShape]
+      } else if (!handle && !hitShape && !(selectionFrame && isPointInFrame(selectionFrame, point))) {
+        if (!event.shiftKey) canvasStore.deselectAll()
+        return
+      }
+      
+      const frame = getSelectionFrame(dragShapes)
+      const bounds = getShapesBounds(dragShapes)
+      if (!frame || !bounds) return
+      
+      activePointerRef.current = event.pointerId
+      event.currentTarget.setPointerCapture(event.pointerId)
+      setSelectionDrag({
+        handle: handle ?? 'move',
+        shapeIds: dragShapes.map(shape => shape.id),
+        frame,
+        bounds,
+        start: point,
+        current: point,
+        constrain: event.shiftKey,
+        free: event.ctrlKey || event.metaKey
+      })
+      return
+    }
+    
+    const { point: drawingPoint, guides: drawingGuides } = getDrawingPoint(event.nativeEvent)
+    
+    // Clicking back on the first vertex closes the polygon
+    if (
+      canvasStore.currentTool === 'polygon' &&
+      canvasStore.isDrawing &&
+      shouldClosePolygonAt(canvasStore.currentPath, drawingPoint)
+    ) {
+      canvasStore.closePolygon()
+      return
     }
-  }, [getPointFromEvent, canvasStore])
+    
+    // Capture keeps the stroke going when the pointer leaves the canvas
+    activePointerRef.current = event.pointerId
+    event.currentTarget.setPointerCapture(event.pointerId)
+    syncDrawingModifiers(event)
+    canvasStore.startDrawing(drawingPoint)
+    setGuides(drawingGuides)
+  }, [
+    getPointFromEvent,
+    getDrawingPoint,
+    getScreenPoint,
+    syncDrawingModifiers,
+    canvasStore,
+    textEdit,
+    openTextEditor,
+    selectionFrame,
+    selectedShapes,
+    viewport.zoom,
+    hitTolerance
+  ])
 
-  // Continue drawing
-  const draw = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+  // Continue drawing or panning
+  const handlePointerMove = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    const panPoint = panPointRef.current
+    if (panPoint && event.pointerId === activePointerRef.current) {
+      const point = getScreenPoint(event.nativeEvent)
+      pan(point.x - panPoint.x, point.y - panPoint.y)
+      panPointRef.current = point
+      return
+    }
+    
+    if (selectionDrag && event.pointerId === activePointerRef.current) {
+      event.preventDefault()
+      setSelectionDrag({
+        ...selectionDrag,
+        current: getPointFromEvent(event.nativeEvent),
+        constrain: event.shiftKey,
+        free: event.ctrlKey || event.metaKey
+      })
+      return
+    }
+    
+    // Over the selection the cursor shows what a drag would do
+    if (canvasStore.currentTool === 'select' && activePointerRef.current === null) {
+      const point = getPointFromEvent(event.nativeEvent)
+      const handle = selectionFrame ? findHandleAt(selectionFrame, point, viewport.zoom) : null
+      const isOverShape = (selectionFrame !== null && isPointInFrame(selectionFrame, point)) ||
+        findShapeAt(canvasStore.shapes, point, { tolerance: hitTolerance }) !== null
+      setHoverTarget(handle ?? (isOverShape ? 'move' : null))
+      return
+    }
+    
     if (!canvasStore.isDrawing) return
+    
+    // Between polygon clicks no pointer is active and the pending vertex follows the primary one
+    const activePointer = activePointerRef.current
+    if (activePointer === null ? !event.isPrimary : event.pointerId !== activePointer) return
     event.preventDefault()
+    syncDrawingModifiers(event)
 
-    const point = getPointFromEvent(event.nativeEvent)
-    canvasStore.continueDrawing(point)
+    // Coalesced events keep every sample of fast pointers such as styluses
+    const coalescedEvents = event.nativeEvent.getCoalescedEvents?.() ?? []
+    const samples = coalescedEvents.length > 0 ? coalescedEvents : [event.nativeEvent]
+    let latestGuides: AlignmentGuide[] = []
+    samples.forEach((sample) => {
+      const { point, guides: sampleGuides } = getDrawingPoint(sample)
+      canvasStore.continueDrawing(point)
+      latestGuides = sampleGuides
+    })
+    setGuides(latestGuides)
+  }, [
+    getDrawingPoint,
+    getPointFromEvent,
+    getScreenPoint,
+    syncDrawingModifiers,
+    canvasStore,
+    pan,
+    selectionDrag,
+    selectionFrame,
+    viewport.zoom,
+    hitTolerance
+  ])
 
-    const canvas = canvasRef.current
-    const ctx = canvas?.getContext('2d')
-    if (ctx) {
-      ctx.lineTo(point.x, point.y)
-      ctx.stroke()
+  // Stop drawing or panning when the active pointer lifts or the browser cancels it
+  const handlePointerUp = useCallback((event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (event.pointerId !== activePointerRef.current) return
+    activePointerRef.current = null
+    
+    if (panPointRef.current) {
+      panPointRef.current = null
+      return
     }
-  }, [getPointFromEvent, canvasStore])
-
-  // Stop drawing
-  const stopDrawing = useCallback((event: React.MouseEvent | React.TouchEvent) => {
+    
+    // The whole select tool drag becomes a single history step
+    if (selectionDrag) {
+      setSelectionDrag(null)
+      if (dragPreview && !isIdentityTransform(dragPreview.transform)) {
+        canvasStore.transformSelected(dragPreview.transform)
+      }
+      return
+    }
+    
+    setGuides([])
+    
     if (!canvasStore.isDrawing) return
     event.preventDefault()
     
+    syncDrawingModifiers(event)
     canvasStore.finishDrawing()
-  }, [canvasStore])
+  }, [syncDrawingModifiers, canvasStore, selectionDrag, dragPreview])
 
-  // Touch event handlers (prevent scrolling while drawing)
-  const handleTouchStart = (event: React.TouchEvent) => {
-    startDrawing(event)
-  }
+  // Browsers still move focus on the mouse events that follow pointerdown; keep it
+  // in a text editor this click opened (clicking away from an open editor still blurs it)
+  const handleMouseDown = useCallback((event: React.MouseEvent) => {
+    if (!textEdit) event.preventDefault()
+  }, [textEdit])
 
-  const handleTouchMove = (event: React.TouchEvent) => {
-    draw(event)
+  // The text editor sits over the anchor's current screen position
+  const getTextEditorPosition = (session: TextEditSession, canvasOffset: Point): Point => {
+    const anchor = documentToScreen(viewport, session.anchor)
+    return { x: canvasOffset.x + anchor.x, y: canvasOffset.y + anchor.y }
   }
 
-  const handleTouchEnd = (event: React.TouchEvent) => {
-    stopDrawing(event)
+  // The select tool's cursor; other tools keep the crosshair
+  const selectionTarget = selectionDrag?.handle ?? hoverTarget
+  const selectionCursor = currentTool !== 'select'
+    ? undefined
+    : selectionDrag?.handle === 'rotate'
+      ? 'grabbing'
+      : selectionTarget ? SELECTION_CURSORS[selectionTarget] : 'default'
+
+  // View controls zoom around the middle of the canvas
+  const zoomAroundCenter = (factor: number) => {
+    zoomAt({ x: canvasSize.width / 2, y: canvasSize.height / 2 }, factor)
   }
 
+  // Right-click opens the paint order menu for the selection, selecting the shape
+  // under the pointer first if it is not selected yet
+  const handleContextMenu = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    event.preventDefault()
+    if (canvasStore.isDrawing || selectionDrag) return
+    
+    const hitShape = findShapeAt(canvasStore.shapes, getPointFromEvent(event.nativeEvent), {
+      tolerance: hitTolerance
+    })
+    if (hitShape && !canvasStore.selectedShapeIds.includes(hitShape.id)) {
+      canvasStore.selectShape(hitShape.id)
+    } else if (!hitShape && canvasStore.selectedShapeIds.length === 0) {
+      return
+    }
+    
+    const canvas = event.currentTarget
+    const point = getScreenPoint(event.nativeEvent)
+    setContextMenu({ x: canvas.offsetLeft + point.x, y: canvas.offsetTop + point.y })
+  }, [canvasStore, selectionDrag, getPointFromEvent, getScreenPoint, hitTolerance])
+
+  // The context menu closes on any click outside it, and on Escape
+  useEffect(() => {
+    if (!contextMenu) return
+
+    const closeMenu = () => setContextMenu(null)
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') closeMenu()
+    }
+
+    window.addEventListener('pointerdown', closeMenu)
+    window.addEventListener('keydown', handleKeyDown)
+    return () => {
+      window.removeEventListener('pointerdown', closeMenu)
+      window.removeEventListener('keydown', handleKeyDown)
+    }
+  }, [contextMenu])
+
+  const contextMenuItems = [
+    { label: 'Bring to front', run: canvasStore.bringToFront },
+    { label: 'Bring forward', run: canvasStore.bringForward },
+    { label: 'Send backward', run: canvasStore.sendBackward },
+    { label: 'Send to back', run: canvasStore.sendToBack },
+    { label: 'Delete', run: canvasStore.deleteSelected }
+  ]
+
+  // Double-click closes the polygon being drawn, or re-opens text for editing
+  const handleDoubleClick = useCallback((event: React.MouseEvent) => {
+    event.preventDefault()
+    
+    if (canvasStore.currentTool === 'polygon') {
+      canvasStore.closePolygon()
+      return
+    }
+    
+    // The text tool already edits text on a single click, and with a drawing
+    // tool the two clicks before this have each drawn a stroke
+    if (canvasStore.currentTool !== 'select') return
+    
+    const textShape = findTextShapeAt(canvasStore.shapes, getPointFromEvent(event.nativeEvent), hitTolerance)
+    if (textShape) {
+      openTextEditor(createTextEditSession(textShape))
+    }
+  }, [canvasStore, getPointFromEvent, openTextEditor, hitTolerance])
+
   return (
     <div className="canvas-editor">
       <canvas
         ref={canvasRef}
         className="drawing-canvas"
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
+        style={{ ...gridStyle, cursor: selectionCursor }}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        onMouseDown={handleMouseDown}
+        onDoubleClick={handleDoubleClick}
+        onContextMenu={handleContextMenu}
       />
       
+      {contextMenu && (
+        <div
+          className="canvas-context-menu"
+          style={{ left: contextMenu.x, top: contextMenu.y }}
+          onPointerDown={(event) => event.stopPropagation()}
+          onContextMenu={(event) => event.preventDefault()}
+        >
+          {contextMenuItems.map((item) => (
+            <button
+              key={item.label}
+              onClick={() => {
+                item.run()
+                setContextMenu(null)
+              }}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+      
+      {textEdit && (
+        <InlineTextEditor
+          key={textEdit.session.shapeId ?? 'new'}
+          session={textEdit.session}
+          position={getTextEditorPosition(textEdit.session, textEdit.canvasOffset)}
+          zoom={viewport.zoom}
+          onCommit={commitTextEdit}
+          onCancel={() => setTextEdit(null)}
+        />
+      )}
+      
+      {/* View controls */}
+      <div className="canvas-view-controls">
+        <button onClick={() => zoomAroundCenter(1 / ZOOM_STEP)} title="Zoom out">
+          −
+        </button>
+        <button onClick={canvasStore.resetView} title="Reset view">
+          {Math.round(viewport.zoom * 100)}%
+        </button>
+        <button onClick={() => zoomAroundCenter(ZOOM_STEP)} title="Zoom in">
+          +
+        </button>
+        <button
+          onClick={() => canvasStore.zoomToFit(canvasSize.width, canvasSize.height)}
+          disabled={shapes.length === 0}
+          title="Zoom to fit"
+        >
+          ⤢
+        </button>
+      </div>
+      
       {/* Debug info */}
       <div className="canvas-debug">
         {canvasStore.isDrawing && (
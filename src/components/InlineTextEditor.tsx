@@ -0,0 +1,128 @@
+/**
+ * Inline Text Editor Component
+ *
+ * A textarea overlaid on the canvas at a text shape's anchor, styled like the
+ * rendered text so editing happens in place. The editor only reports the
+ * final text; CanvasEditor turns it into an undoable store action.
+ */
+
+import React, { useEffect, useRef, useState } from 'react'
+import type { Point } from '../store/types'
+import { TEXT_LINE_HEIGHT } from '../store/types'
+import { getTextFont } from '../store/utils'
+import './InlineTextEditor.css'
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A text edit in progress
+ */
+export interface TextEditSession {
+  /** Text shape being edited, or null when placing a new one */
+  shapeId: string | null
+
+  /** Top-left anchor of the text in document coordinates */
+  anchor: Point
+
+  /** Text when the session started */
+  initialText: string
+
+  color: string
+  fontSize: number
+  fontFamily: string
+}
+
+interface InlineTextEditorProps {
+  session: TextEditSession
+
+  /** Screen position of the anchor inside the editor's positioned container */
+  position: Point
+
+  /** Current zoom, so the editor text matches the rendered text */
+  zoom: number
+
+  /** Called with the final text when editing ends without cancelling */
+  onCommit: (text: string) => void
+
+  /** Called when editing is cancelled with Escape */
+  onCancel: () => void
+}
+
+// ============================================================================
+// Inline Text Editor Component
+// ============================================================================
+
+export const InlineTextEditor: React.FC<InlineTextEditorProps> = ({
+  session,
+  position,
+  zoom,
+  onCommit,
+  onCancel
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [value, setValue] = useState(session.initialText)
+
+  // Blur fires after Escape unmounts the editor in some browsers - ignore it
+  const isClosedRef = useRef(false)
+
+  useEffect(() => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+
+    textarea.focus()
+    textarea.select()
+  }, [])
+
+  const finish = (commit: boolean) => {
+    if (isClosedRef.current) return
+    isClosedRef.current = true
+
+    if (commit) {
+      onCommit(value)
+    } else {
+      onCancel()
+    }
+  }
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep canvas shortcuts from firing while typing
+    event.stopPropagation()
+
+    if (event.key === 'Escape') {
+      event.preventDefault()
+      finish(false)
+    } else if (event.key === 'Enter' && (event.ctrlKey || event.metaKey)) {
+      event.preventDefault()
+      finish(true)
+    }
+  }
+
+  const lines = value.split('\n')
+  const longestLine = Math.max(...lines.map(line => line.length))
+
+  return (
+    <textarea
+      ref={textareaRef}
+      className="inline-text-editor"
+      value={value}
+      rows={lines.length}
+      cols={Math.max(longestLine + 1, 4)}
+      onChange={(event) => setValue(event.target.value)}
+      onKeyDown={handleKeyDown}
+      onBlur={() => finish(true)}
+      placeholder="Type…"
+      spellCheck={false}
+      style={{
+        left: position.x,
+        top: position.y,
+        color: session.color,
+        font: getTextFont({ ...session, fontSize: session.fontSize * zoom }),
+        lineHeight: TEXT_LINE_HEIGHT
+      }}
+    />
+  )
+}
+
+export default InlineTextEditor
@@ -25,8 +25,18 @@
  */
 
 import React, { useState, useCallback, useMemo } from 'react'
-import { useCanvasStoreWithType } from '../hooks/useCanvasStoreHooks'
-import type { Point, Shape, CanvasStore } from '../store/types'
+import { useCanvasStoreWithType, useStoreSwitchLog } from '../hooks/useCanvasStoreHooks'
+import { STORE_CONFIGS, SWITCH_POLICY_CONFIGS } from '../hooks/storeAdapter'
+import type { StoreSwitchRecord } from '../hooks/storeAdapter'
+import type { Point, Shape, CanvasStore, HistoryBranch } from '../store/types'
+import {
+  describeHistoryEntry,
+  describeHistoryLimit,
+  getHistoryShapeCounts,
+  countHistoryBranches,
+  estimateHistoryBytes,
+  isHistoryAtLimit
+} from '../store/history'
 import './StateDebugger.css'
 
 // ============================================================================
@@ -36,17 +46,31 @@ import './StateDebugger.css'
 interface ShapeSummary {
   id: string
   pointsCount: number
+  rawPointsCount?: number
   color: string
   type: string
   timestamp: number
   firstPoint: Point
   lastPoint: Point
+  text?: string
+}
+
+interface HistoryBranchSummary {
+  id: string
+  labels: string[]
+  branches: HistoryBranchSummary[]
 }
 
 interface HistoryEntry {
   index: number
+  action: string
+  label: string
+  timestamp: number
+  isUserLabel: boolean
   shapesCount: number
+  patchesCount: number
   summary: string
+  branches: HistoryBranchSummary[]
 }
 
 interface FormattedStateData {
@@ -56,26 +80,56 @@ interface FormattedStateData {
   state: {
     shapes: ShapeSummary[]
     history: HistoryEntry[]
+    historyMode: string
+    historyLimit: string
+    historyAtLimit: boolean
     currentHistoryIndex: number
     isDrawing: boolean
     currentColor: string
     currentTool: string
     currentPath: Point[]
+    selectedShapeIds: string[]
   }
   actions: string[]
+  switchLog: StoreSwitchRecord[]
   metadata: {
     shapesCount: number
+    pointsCount: number
+    rawPointsCount: number
     historyLength: number
+    branchesCount: number
+    historyBytes: number
     currentHistoryIndex: number
     isDrawing: boolean
   }
 }
 
+// Points stored across shapes, or sampled while drawing them (before simplification)
+const countPoints = (shapes: Shape[], raw: boolean): number => {
+  return shapes.reduce(
+    (total, shape) => total + (raw ? shape.rawPointCount ?? shape.points.length : shape.points.length),
+    0
+  )
+}
+
+// Branches beside a step, with the branches inside them, for the tree view
+const summarizeBranch = (branch: HistoryBranch): HistoryBranchSummary => ({
+  id: branch.id,
+  labels: branch.entries.map(describeHistoryEntry),
+  branches: branch.entries.flatMap(entry => (entry.branches || []).map(summarizeBranch))
+})
+
 const formatStateForDisplay = (
   canvasStore: CanvasStore,
-  storeType: string
+  storeType: string,
+  switchLog: StoreSwitchRecord[]
 ): FormattedStateData => {
   const now = new Date()
+  const historyShapeCounts = getHistoryShapeCounts(
+    canvasStore.history || [],
+    canvasStore.historyIndex || 0,
+    canvasStore.shapes?.length || 0
+  )
   
   return {
     timestamp: now.toLocaleTimeString(),
@@ -85,20 +139,32 @@ const formatStateForDisplay = (
       shapes: canvasStore.shapes?.map((shape: Shape) => ({
         id: shape.id,
         pointsCount: shape.points.length,
+        rawPointsCount: shape.rawPointCount,
         color: shape.color,
         type: shape.type,
         timestamp: shape.timestamp,
         firstPoint: shape.points[0],
         lastPoint: shape.points[shape.points.length - 1],
+        text: shape.text,
       })) || [],
       currentColor: canvasStore.currentColor || '#000000',
       currentTool: canvasStore.currentTool || 'pen',
       currentPath: canvasStore.currentPath || [],
-      history: canvasStore.history?.map((shapesArray: Shape[], index: number) => ({
+      selectedShapeIds: canvasStore.selectedShapeIds || [],
+      history: canvasStore.history?.map((entry, index) => ({
         index,
-        shapesCount: shapesArray.length,
-        summary: `History ${index}: ${shapesArray.length} shapes`
+        action: entry.action,
+        label: describeHistoryEntry(entry),
+        timestamp: entry.timestamp,
+        isUserLabel: Boolean(entry.label),
+        shapesCount: historyShapeCounts[index + 1],
+        patchesCount: entry.patches.length,
+        summary: `History ${index + 1}: ${describeHistoryEntry(entry)}`,
+        branches: (entry.branches || []).map(summarizeBranch)
       })) || [],
+      historyMode: canvasStore.historyMode || 'linear',
+      historyLimit: describeHistoryLimit(canvasStore.historyLimit),
+      historyAtLimit: isHistoryAtLimit(canvasStore.history || [], canvasStore.historyLimit),
       currentHistoryIndex: canvasStore.historyIndex || 0,
       isDrawing: canvasStore.isDrawing || false
     },
@@ -106,15 +172,38 @@ const formatStateForDisplay = (
       'startDrawing',
       'addPoint', 
       'endDrawing',
+      'closePolygon',
       'undo',
       'redo',
+      'goToHistory',
+      'setHistoryLabel',
+      'setHistoryMode',
+      'switchHistoryBranch',
+      'setHistoryLimit',
       'clear',
       'setColor',
-      'setTool'
+      'setTool',
+      'selectShape',
+      'deselectAll',
+      'deleteSelected',
+      'moveSelected',
+      'transformSelected',
+      'bringToFront',
+      'sendToBack',
+      'bringForward',
+      'sendBackward',
+      'recolorSelected',
+      'updateText',
+      'hydrate'
     ],
+    switchLog,
     metadata: {
       shapesCount: canvasStore.shapes?.length || 0,
+      pointsCount: countPoints(canvasStore.shapes || [], false),
+      rawPointsCount: countPoints(canvasStore.shapes || [], true),
       historyLength: canvasStore.history?.length || 0,
+      branchesCount: countHistoryBranches(canvasStore.history || []),
+      historyBytes: estimateHistoryBytes(canvasStore.history || []),
       currentHistoryIndex: canvasStore.historyIndex || 0,
       isDrawing: canvasStore.isDrawing || false
     }
@@ -145,17 +234,54 @@ const useCopyToClipboard = () => {
 // State Inspector Component
 // ============================================================================
 
+interface HistoryBranchListProps {
+  branches: HistoryBranchSummary[]
+  onSwitchBranch: (branchId: string) => void
+}
+
+const HistoryBranchList: React.FC<HistoryBranchListProps> = ({ branches, onSwitchBranch }) => (
+  <ul className="history-branches">
+    {branches.map(branch => (
+      <li key={branch.id}>
+        <div className="history-branch">
+          <span className="history-branch-labels">
+            ⑂ {branch.labels.join(' → ')} ({branch.labels.length} steps)
+          </span>
+          <button
+            className="copy-button"
+            onClick={() => onSwitchBranch(branch.id)}
+            title="Switch to this branch, ending at its last step"
+          >
+            Switch
+          </button>
+        </div>
+        {branch.branches.length > 0 && (
+          <HistoryBranchList branches={branch.branches} onSwitchBranch={onSwitchBranch} />
+        )}
+      </li>
+    ))}
+  </ul>
+)
+
+const formatBytes = (bytes: number): string => {
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(2)} MB`
+}
+
 interface StateInspectorProps {
   data: FormattedStateData
+  onSwitchBranch: (branchId: string) => void
   className?: string
 }
 
-const StateInspector: React.FC<StateInspectorProps> = ({ data, className = '' }) => {
+const StateInspector: React.FC<StateInspectorProps> = ({ data, onSwitchBranch, className = '' }) => {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     metadata: true,
     state: false,
     shapes: false,
     history: false,
+    switches: false,
     actions: false
   })
 
@@ -210,13 +336,27 @@ const StateInspector: React.FC<StateInspectorProps> = ({ data, className = '' })
                 <span className="stat-label">Shapes</span>
                 <span className="stat-value">{data.metadata.shapesCount}</span>
               </div>
+              <div className="stat-card" title="Stored points / points sampled before simplification">
+                <span className="stat-label">Points</span>
+                <span className="stat-value">
+                  {data.metadata.pointsCount}/{data.metadata.rawPointsCount}
+                </span>
+              </div>
               <div className="stat-card">
                 <span className="stat-label">History</span>
                 <span className="stat-value">{data.metadata.historyLength}</span>
               </div>
+              <div className="stat-card" title="Undone steps kept by the undo tree">
+                <span className="stat-label">Branches</span>
+                <span className="stat-value">{data.metadata.branchesCount}</span>
+              </div>
+              <div className="stat-card" title="Estimated memory held by history, including the shapes it refers to">
+                <span className="stat-label">History Memory</span>
+                <span className="stat-value">{formatBytes(data.metadata.historyBytes)}</span>
+              </div>
               <div className="stat-card">
                 <span className="stat-label">Position</span>
-                <span className="stat-value">{data.metadata.currentHistoryIndex + 1}/{data.metadata.historyLength}</span>
+                <span className="stat-value">{data.metadata.currentHistoryIndex}/{data.metadata.historyLength}</span>
               </div>
               <div className="stat-card">
                 <span className="stat-label">Drawing</span>
@@ -247,6 +387,7 @@ const StateInspector: React.FC<StateInspectorProps> = ({ data, className = '' })
                   currentTool: data.state.currentTool,
                   historyIndex: data.state.currentHistoryIndex,
                   isDrawing: data.state.isDrawing,
+                  selectedShapeIds: data.state.selectedShapeIds,
                   currentPath: data.state.currentPath
                 }, null, 2)}
               </pre>
@@ -286,14 +427,79 @@ const StateInspector: React.FC<StateInspectorProps> = ({ data, className = '' })
             aria-expanded={expandedSections.history}
           >
             <span className="toggle-icon">{expandedSections.history ? '▼' : '▶'}</span>
-            📚 History ({data.state.history.length})
+            📚 History ({data.state.history.length}, {data.state.historyMode})
           </button>
           
           {expandedSections.history && (
             <div className="section-content">
-              <pre className="json-display">
-                {JSON.stringify(data.state.history, null, 2)}
-              </pre>
+              {data.state.historyAtLimit && (
+                <div className="history-limit-warning">
+                  ⚠️ History is at its limit ({data.state.historyLimit}): each new step discards the oldest one
+                </div>
+              )}
+              {data.state.history.length > 0 ? (
+                <ol className="history-log">
+                  {data.state.history.map(entry => (
+                    <li key={entry.index}>
+                      <div
+                        className={`history-log-entry ${entry.index >= data.state.currentHistoryIndex ? 'undone' : ''}`}
+                      >
+                        <span className="history-log-time">
+                          {new Date(entry.timestamp).toLocaleTimeString()}
+                        </span>
+                        <span className="history-log-label">
+                          {entry.isUserLabel ? '🏷️ ' : ''}{entry.label}
+                        </span>
+                        <span className="action-badge">{entry.action}</span>
+                        <span className="history-log-shapes">{entry.shapesCount} shapes</span>
+                      </div>
+                      {/* Alternatives to this step, from the same starting point */}
+                      {entry.branches.length > 0 && (
+                        <HistoryBranchList branches={entry.branches} onSwitchBranch={onSwitchBranch} />
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <div className="empty-state">No history steps yet</div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Store Switch Log */}
+        <div className="inspector-section">
+          <button
+            className="section-toggle"
+            onClick={() => toggleSection('switches')}
+            aria-expanded={expandedSections.switches}
+          >
+            <span className="toggle-icon">{expandedSections.switches ? '▼' : '▶'}</span>
+            🔀 Store Switches ({data.switchLog.length})
+          </button>
+          
+          {expandedSections.switches && (
+            <div className="section-content">
+              {data.switchLog.length > 0 ? (
+                <ul className="switch-log">
+                  {data.switchLog.map((record, index) => (
+                    <li key={index} className="switch-log-entry">
+                      <span className="switch-log-time">
+                        {new Date(record.timestamp).toLocaleTimeString()}
+                      </span>
+                      <span className="switch-log-stores">
+                        {STORE_CONFIGS[record.from].name} → {STORE_CONFIGS[record.to].name}
+                      </span>
+                      <span className="action-badge">
+                        {SWITCH_POLICY_CONFIGS[record.policy].name}
+                      </span>
+                      <span className="switch-log-shapes">{record.shapesCount} shapes</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="empty-state">No store switches yet</div>
+              )}
             </div>
           )}
         </div>
@@ -342,10 +548,11 @@ const StateDebugger: React.FC<StateDebuggerProps> = ({
   onToggleCollapsed
 }) => {
   const { store: canvasStore, storeType } = useCanvasStoreWithType()
+  const switchLog = useStoreSwitchLog()
   
   const formattedData = useMemo(() => {
-    return formatStateForDisplay(canvasStore, storeType)
-  }, [canvasStore, storeType])
+    return formatStateForDisplay(canvasStore, storeType, switchLog)
+  }, [canvasStore, storeType, switchLog])
 
   if (isCollapsed) {
     return (
@@ -376,7 +583,7 @@ const StateDebugger: React.FC<StateDebuggerProps> = ({
         )}
       </div>
       
-      <StateInspector data={formattedData} />
+      <StateInspector data={formattedData} onSwitchBranch={canvasStore.switchHistoryBranch} />
     </div>
   )
 }
@@ -7,12 +7,16 @@
  * or reset as needed.
  */
 
-import React, { useState, useMemo } from 'react'
+import React, { useState, useMemo, useRef, useLayoutEffect, useCallback } from 'react'
 import { Provider as ReduxProvider } from 'react-redux'
 import { reduxStore } from '../store/reduxStore'
 import { CanvasProvider } from '../store/contextStore'
-import { StoreTypeProvider } from '../hooks'
-import type { StoreType } from '../hooks/storeAdapter'
+import { extractCanvasState, mergeCanvasStates } from '../store/utils'
+import type { CanvasState } from '../store/types'
+import { initialCanvasState } from '../store/types'
+import { StoreTypeProvider, StoreSwitchLogContext, useCanvasStore } from '../hooks'
+import type { StoreType, SwitchPolicy, StoreSwitchRecord } from '../hooks/storeAdapter'
+import { STORE_CONFIGS } from '../hooks/storeAdapter'
 import StoreSelector from './StoreSelector'
 import './StoreManager.css'
 
@@ -20,7 +24,7 @@ import './StoreManager.css'
 // Store Provider Wrapper Components
 // ============================================================================
 
-interface ProviderWrapperProps {
+interface ProviderWrapperProps extends StoreHandoffProps {
   storeType: StoreType
   children: React.ReactNode
 }
@@ -57,10 +61,115 @@ const ContextProviderWrapper: React.FC<{ children: React.ReactNode }> = ({ child
   )
 }
 
+// ============================================================================
+// Store Handoff
+// ============================================================================
+
+/**
+ * A switch that has been requested but not yet applied to the incoming store
+ */
+interface PendingSwitch {
+  from: StoreType
+  to: StoreType
+  policy: SwitchPolicy
+  outgoingState: CanvasState | null
+}
+
+/**
+ * Works out the state the incoming store should start with for a policy
+ */
+const resolveSwitchState = (
+  policy: SwitchPolicy,
+  outgoingState: CanvasState | null,
+  incomingState: CanvasState
+): CanvasState => {
+  switch (policy) {
+    case 'preserve':
+      return outgoingState ?? incomingState
+    case 'reset': {
+      // History settings are the user's choice, so they survive starting fresh
+      const { historyLimit, historyMode } = outgoingState ?? incomingState
+      return { ...initialCanvasState, historyLimit, historyMode }
+    }
+    case 'merge': {
+      if (!outgoingState) return incomingState
+      
+      // Keep the incoming store's drawing and history, add the outgoing shapes
+      // on top, and keep using the color and tool the user had selected
+      return {
+        ...mergeCanvasStates(incomingState, outgoingState),
+        currentColor: outgoingState.currentColor,
+        currentTool: outgoingState.currentTool
+      }
+    }
+    default:
+      throw new Error(`Unknown switch policy: ${policy}`)
+  }
+}
+
+interface StoreHandoffProps {
+  latestStateRef: React.RefObject<CanvasState | null>
+  pendingSwitchRef: React.RefObject<PendingSwitch | null>
+  onSwitchComplete: (record: StoreSwitchRecord) => void
+}
+
+/**
+ * Store Handoff
+ * Rendered inside the active provider: it keeps a copy of the active store's
+ * state so it can be carried over, and hydrates the incoming store on mount
+ */
+const StoreHandoff: React.FC<StoreHandoffProps> = ({
+  latestStateRef,
+  pendingSwitchRef,
+  onSwitchComplete
+}) => {
+  const canvasStore = useCanvasStore()
+  const { hydrate } = canvasStore
+
+  // Track the latest state of the active store for the next switch
+  // Runs before the hydrate effect, so on mount it holds the incoming store's state
+  useLayoutEffect(() => {
+    latestStateRef.current = extractCanvasState(canvasStore)
+  })
+
+  // Hydrate the incoming store before the first paint so the canvas never flashes
+  useLayoutEffect(() => {
+    const pendingSwitch = pendingSwitchRef.current
+    if (!pendingSwitch) return
+    
+    pendingSwitchRef.current = null
+    const incomingState = latestStateRef.current
+    if (!incomingState) return
+    
+    const nextState = resolveSwitchState(
+      pendingSwitch.policy,
+      pendingSwitch.outgoingState,
+      incomingState
+    )
+    hydrate(nextState)
+    
+    onSwitchComplete({
+      from: pendingSwitch.from,
+      to: pendingSwitch.to,
+      policy: pendingSwitch.policy,
+      shapesCount: nextState.shapes.length,
+      timestamp: Date.now()
+    })
+  }, [hydrate, latestStateRef, pendingSwitchRef, onSwitchComplete])
+
+  return null
+}
+
 /**
  * Universal Provider that switches between store providers
  */
-const UniversalProvider: React.FC<ProviderWrapperProps> = ({ storeType, children }) => {
+const UniversalProvider: React.FC<ProviderWrapperProps> = ({
+  storeType,
+  latestStateRef,
+  pendingSwitchRef,
+  onSwitchComplete,
+  children
+}) => {
   const ProviderComponent = useMemo(() => {
     switch (storeType) {
       case 'zustand':
@@ -77,6 +186,11 @@ const UniversalProvider: React.FC<ProviderWrapperProps> = ({ storeType, children
   return (
     <ProviderComponent>
       <StoreTypeProvider storeType={storeType}>
+        <StoreHandoff
+          latestStateRef={latestStateRef}
+          pendingSwitchRef={pendingSwitchRef}
+          onSwitchComplete={onSwitchComplete}
+        />
         {children}
       </StoreTypeProvider>
     </ProviderComponent>
@@ -91,6 +205,8 @@ interface StoreManagerProps {
   children: React.ReactNode
   showSelector?: boolean
   defaultStore?: StoreType
+  /** Initial policy for what happens to the drawing on a store switch */
+  switchPolicy?: SwitchPolicy
   className?: string
 }
 
@@ -98,31 +214,66 @@ const StoreManager: React.FC<StoreManagerProps> = ({
   children,
   showSelector = true,
   defaultStore = 'zustand',
+  switchPolicy: defaultSwitchPolicy = 'preserve',
   className = ''
 }) => {
   const [currentStore, setCurrentStore] = useState<StoreType>(defaultStore)
+  const [switchPolicy, setSwitchPolicy] = useState<SwitchPolicy>(defaultSwitchPolicy)
+  const [switchLog, setSwitchLog] = useState<StoreSwitchRecord[]>([])
+  
+  // State of the active store, and the switch waiting to be applied to the next one
+  const latestStateRef = useRef<CanvasState | null>(null)
+  const pendingSwitchRef = useRef<PendingSwitch | null>(null)
 
   const handleStoreChange = (newStoreType: StoreType) => {
     if (newStoreType === currentStore) return
     
-    // You could add confirmation dialog here if needed
-    console.log(`Switching from ${currentStore} to ${newStoreType}`)
+    const outgoingState = latestStateRef.current
+    const outgoingShapesCount = outgoingState?.shapes.length ?? 0
+    
+    // Starting fresh throws the current drawing away, so ask first
+    if (switchPolicy === 'reset' && outgoingShapesCount > 0) {
+      const confirmed = window.confirm(
+        `Switch to ${STORE_CONFIGS[newStoreType].name} and start fresh? ` +
+        `The current drawing (${outgoingShapesCount} shapes) will not be carried over.`
+      )
+      if (!confirmed) return
+    }
     
+    pendingSwitchRef.current = {
+      from: currentStore,
+      to: newStoreType,
+      policy: switchPolicy,
+      outgoingState
+    }
     setCurrentStore(newStoreType)
   }
 
+  const handleSwitchComplete = useCallback((record: StoreSwitchRecord) => {
+    setSwitchLog(prev => [...prev, record])
+  }, [])
+
   return (
     <div className={`store-manager ${className}`}>
       {showSelector && (
         <StoreSelector
           currentStore={currentStore}
           onStoreChange={handleStoreChange}
+          switchPolicy={switchPolicy}
+          onSwitchPolicyChange={setSwitchPolicy}
         />
       )}
       
-      <UniversalProvider storeType={currentStore}>
-        {children}
-      </UniversalProvider>
+      <StoreSwitchLogContext.Provider value={switchLog}>
+        <UniversalProvider
+          storeType={currentStore}
+          latestStateRef={latestStateRef}
+          pendingSwitchRef={pendingSwitchRef}
+          onSwitchComplete={handleSwitchComplete}
+        >
+          {children}
+        </UniversalProvider>
+      </StoreSwitchLogContext.Provider>
     </div>
   )
 }
@@ -7,8 +7,8 @@
  */
 
 import React from 'react'
-import type { StoreType } from '../hooks/storeAdapter'
-import { STORE_CONFIGS } from '../hooks/storeAdapter'
+import type { StoreType, SwitchPolicy } from '../hooks/storeAdapter'
+import { STORE_CONFIGS, SWITCH_POLICY_CONFIGS } from '../hooks/storeAdapter'
 import './StoreSelector.css'
 
 // ============================================================================
@@ -18,6 +18,9 @@ import './StoreSelector.css'
 interface StoreSelectorProps {
   currentStore: StoreType
   onStoreChange: (storeType: StoreType) => void
+  /** Current switch policy; the policy control is hidden when omitted */
+  switchPolicy?: SwitchPolicy
+  onSwitchPolicyChange?: (policy: SwitchPolicy) => void
   className?: string
 }
 
@@ -46,6 +49,36 @@ const StoreButton: React.FC<StoreButtonProps> = ({ storeType, isActive, onSelect
   )
 }
 
+// ============================================================================
+// Switch Policy Control Component
+// ============================================================================
+
+interface SwitchPolicyControlProps {
+  policy: SwitchPolicy
+  onChange: (policy: SwitchPolicy) => void
+}
+
+const SwitchPolicyControl: React.FC<SwitchPolicyControlProps> = ({ policy, onChange }) => {
+  const policies = Object.keys(SWITCH_POLICY_CONFIGS) as SwitchPolicy[]
+  
+  return (
+    <label className="switch-policy" title={SWITCH_POLICY_CONFIGS[policy].description}>
+      <span className="selector-label">On switch:</span>
+      <select
+        className="switch-policy-select"
+        value={policy}
+        onChange={(e) => onChange(e.target.value as SwitchPolicy)}
+      >
+        {policies.map(option => (
+          <option key={option} value={option}>
+            {SWITCH_POLICY_CONFIGS[option].name}
+          </option>
+        ))}
+      </select>
+    </label>
+  )
+}
+
 // ============================================================================
 // Main Store Selector Component
 // ============================================================================
@@ -53,6 +86,8 @@ const StoreButton: React.FC<StoreButtonProps> = ({ storeType, isActive, onSelect
 const StoreSelector: React.FC<StoreSelectorProps> = ({
   currentStore,
   onStoreChange,
+  switchPolicy,
+  onSwitchPolicyChange,
   className = ''
 }) => {
   const storeTypes: StoreType[] = ['zustand', 'redux', 'context']
@@ -71,6 +106,12 @@ const StoreSelector: React.FC<StoreSelectorProps> = ({
             />
           ))}
         </div>
+        {switchPolicy && onSwitchPolicyChange && (
+          <SwitchPolicyControl
+            policy={switchPolicy}
+            onChange={onSwitchPolicyChange}
+          />
+        )}
         <span className="current-store">
           {STORE_CONFIGS[currentStore].name}
         </span>
@@ -75,7 +75,7 @@ const TestCanvas: React.FC = () => {
       
       <button 
         onClick={canvasStore.redo}
-        disabled={canvasStore.historyIndex >= canvasStore.history.length - 1}
+        disabled={canvasStore.historyIndex >= canvasStore.history.length}
         style={{ marginRight: '10px' }}
       >
         Redo
@@ -7,8 +7,24 @@
  */
 
 import React from "react";
-import { useCanvasStore } from "../hooks";
-import type { DrawingTool } from "../store/types";
+import { useCanvasStore, usePersistedHistoryLimit } from "../hooks";
+import type {
+  Arrowheads,
+  DrawingTool,
+  EraserMode,
+  HistoryLimit,
+  LineDash,
+} from "../store/types";
+import { NO_FILL } from "../store/types";
+import {
+  isClosedShapeTool,
+  isProcessedStrokeTool,
+} from "../store/utils";
+import {
+  describeHistoryEntry,
+  describeHistoryLimit,
+  getHistoryShapeCounts,
+} from "../store/history";
 import "./Toolbar.css";
 
 // ============================================================================
@@ -36,11 +52,96 @@ const DRAWING_TOOLS: Array<{
   name: string;
   icon: string;
 }> = [
+  { id: "select", name: "Select (drag handles to resize and rotate, double-click text to edit)", icon: "🖱️" },
   { id: "pen", name: "Pen", icon: "✏️" },
+  { id: "brush", name: "Brush", icon: "🖌️" },
+  { id: "marker", name: "Marker", icon: "🖍️" },
+  { id: "line", name: "Line", icon: "📏" },
+  { id: "arrow", name: "Arrow", icon: "↗️" },
   { id: "rectangle", name: "Rectangle", icon: "⬜" },
   { id: "circle", name: "Circle", icon: "⭕" },
+  { id: "ellipse", name: "Ellipse", icon: "⬭" },
+  { id: "polygon", name: "Polygon (double-click to close)", icon: "⬠" },
+  { id: "text", name: "Text (click text to edit)", icon: "🔤" },
+  { id: "eraser", name: "Eraser", icon: "🧽" },
+  { id: "fill", name: "Fill bucket", icon: "🪣" },
 ];
 
+const ERASER_MODES: Array<{
+  id: EraserMode;
+  name: string;
+}> = [
+  { id: "shape", name: "Whole shapes" },
+  { id: "split", name: "Split strokes" },
+];
+
+const ARROWHEAD_OPTIONS: Array<{
+  id: Arrowheads;
+  name: string;
+}> = [
+  { id: "end", name: "Head at end" },
+  { id: "start", name: "Head at start" },
+  { id: "both", name: "Heads at both ends" },
+];
+
+const LINE_DASHES: Array<{
+  id: LineDash;
+  name: string;
+}> = [
+  { id: "solid", name: "Solid" },
+  { id: "dashed", name: "Dashed" },
+  { id: "dotted", name: "Dotted" },
+];
+
+const STROKE_WIDTH_RANGE = { min: 1, max: 20 };
+
+const GRID_SPACINGS = [10, 20, 40, 80];
+
+const SIMPLIFY_TOLERANCES: Array<{
+  value: number;
+  name: string;
+}> = [
+  { value: 0, name: "Keep all points" },
+  { value: 0.75, name: "Simplify lightly" },
+  { value: 2, name: "Simplify more" },
+  { value: 5, name: "Simplify a lot" },
+];
+
+const FONT_SIZES = [12, 16, 20, 28, 36, 48];
+
+const FONT_FAMILIES: Array<{
+  id: string;
+  name: string;
+}> = [
+  { id: "sans-serif", name: "Sans-serif" },
+  { id: "serif", name: "Serif" },
+  { id: "monospace", name: "Monospace" },
+  { id: "cursive", name: "Handwritten" },
+];
+
+const HISTORY_LIMITS: HistoryLimit[] = [
+  { type: "entries", maxEntries: 25 },
+  { type: "entries", maxEntries: 50 },
+  { type: "entries", maxEntries: 100 },
+  { type: "entries", maxEntries: 250 },
+  { type: "memory", maxBytes: 256 * 1024 },
+  { type: "memory", maxBytes: 1024 * 1024 },
+  { type: "memory", maxBytes: 5 * 1024 * 1024 },
+  { type: "unlimited" },
+];
+
+// Option values for the history limit select
+const historyLimitKey = (limit: HistoryLimit): string => {
+  switch (limit.type) {
+    case "entries":
+      return `entries:${limit.maxEntries}`;
+    case "memory":
+      return `memory:${limit.maxBytes}`;
+    case "unlimited":
+      return "unlimited";
+  }
+};
+
 // ============================================================================
 // Toolbar Component
 // ============================================================================
@@ -51,9 +152,49 @@ interface ToolbarProps {
 
 const Toolbar: React.FC<ToolbarProps> = ({ className = "" }) => {
   const canvasStore = useCanvasStore();
+  const [historyLimit, setHistoryLimit] = usePersistedHistoryLimit();
 
   const canUndo = canvasStore.historyIndex > 0;
-  const canRedo = canvasStore.historyIndex < canvasStore.history.length - 1;
+  const canRedo = canvasStore.historyIndex < canvasStore.history.length;
+  const hasSelection = canvasStore.selectedShapeIds.length > 0;
+  const showFillOptions =
+    canvasStore.currentTool === "fill" ||
+    isClosedShapeTool(canvasStore.currentTool);
+  const hasFill = canvasStore.currentFillColor !== NO_FILL;
+  const historyShapeCounts = getHistoryShapeCounts(
+    canvasStore.history,
+    canvasStore.historyIndex,
+    canvasStore.shapes.length
+  );
+  // A saved limit that is not one of the presets still gets an option
+  const historyLimitOptions = HISTORY_LIMITS.some(
+    (limit) => historyLimitKey(limit) === historyLimitKey(historyLimit)
+  )
+    ? HISTORY_LIMITS
+    : [...HISTORY_LIMITS, historyLimit];
+
+  // Picking a color also recolors the selection, like most drawing apps
+  const handleColorChange = (color: string) => {
+    canvasStore.changeColor(color);
+    if (hasSelection) {
+      canvasStore.recolorSelected(color);
+    }
+  };
+
+  // Names the step the canvas is at; an empty name brings back the generated label
+  const handleLabelStep = () => {
+    const entryIndex = canvasStore.historyIndex - 1;
+    const entry = canvasStore.history[entryIndex];
+    if (!entry) return;
+
+    const label = window.prompt(
+      "Name this history step",
+      describeHistoryEntry(entry)
+    );
+    if (label !== null) {
+      canvasStore.setHistoryLabel(entryIndex, label);
+    }
+  };
 
   return (
     <div className={`toolbar ${className}`}>
@@ -75,6 +216,241 @@ const Toolbar: React.FC<ToolbarProps> = ({ className = "" }) => {
               </button>
             ))}
           </div>
+          {canvasStore.currentTool === "eraser" && (
+            <div className="tool-options">
+              <select
+                className="option-select"
+                value={canvasStore.eraserMode}
+                onChange={(e) =>
+                  canvasStore.changeEraserMode(e.target.value as EraserMode)
+                }
+                title="Eraser mode"
+              >
+                {ERASER_MODES.map((mode) => (
+                  <option key={mode.id} value={mode.id}>
+                    {mode.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {canvasStore.currentTool === "arrow" && (
+            <div className="tool-options">
+              <select
+                className="option-select"
+                value={canvasStore.currentArrowheads}
+                onChange={(e) =>
+                  canvasStore.changeArrowheads(e.target.value as Arrowheads)
+                }
+                title="Arrowheads"
+              >
+                {ARROWHEAD_OPTIONS.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+          {canvasStore.currentTool === "text" && (
+            <div className="tool-options">
+              <select
+                className="option-select"
+                value={canvasStore.currentFontSize}
+                onChange={(e) =>
+                  canvasStore.changeFontSize(Number(e.target.value))
+                }
+                title="Font size"
+              >
+                {FONT_SIZES.map((size) => (
+                  <option key={size} value={size}>
+                    {size}px
+                  </option>
+                ))}
+              </select>
+              <select
+                className="option-select"
+                value={canvasStore.currentFontFamily}
+                onChange={(e) => canvasStore.changeFontFamily(e.target.value)}
+                title="Font family"
+              >
+                {FONT_FAMILIES.map((family) => (
+                  <option key={family.id} value={family.id}>
+                    {family.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+        </div>
+
+        {/* Stroke Section */}
+        {canvasStore.currentTool !== "eraser" && (
+          <div className="toolbar-section stroke-section">
+            <span className="section-label">Stroke:</span>
+            <div className="tool-options">
+              <input
+                type="range"
+                className="option-range"
+                min={STROKE_WIDTH_RANGE.min}
+                max={STROKE_WIDTH_RANGE.max}
+                value={canvasStore.currentStrokeWidth}
+                onChange={(e) =>
+                  canvasStore.changeStrokeWidth(Number(e.target.value))
+                }
+                title="Stroke width"
+              />
+              <span className="option-value">
+                {canvasStore.currentStrokeWidth}px
+              </span>
+              <input
+                type="range"
+                className="option-range"
+                min={10}
+                max={100}
+                step={5}
+                value={Math.round(canvasStore.currentOpacity * 100)}
+                onChange={(e) =>
+                  canvasStore.changeOpacity(Number(e.target.value) / 100)
+                }
+                title="Opacity"
+              />
+              <span className="option-value">
+                {Math.round(canvasStore.currentOpacity * 100)}%
+              </span>
+              <select
+                className="option-select"
+                value={canvasStore.currentDash}
+                onChange={(e) =>
+                  canvasStore.changeDash(e.target.value as LineDash)
+                }
+                title="Line style"
+              >
+                {LINE_DASHES.map((dash) => (
+                  <option key={dash.id} value={dash.id}>
+                    {dash.name}
+                  </option>
+                ))}
+              </select>
+              {isProcessedStrokeTool(canvasStore.currentTool) && (
+                <>
+                  <button
+                    className={`tool-btn ${
+                      canvasStore.strokeProcessing.smoothing ? "active" : ""
+                    }`}
+                    onClick={() =>
+                      canvasStore.changeStrokeProcessing({
+                        smoothing: !canvasStore.strokeProcessing.smoothing,
+                      })
+                    }
+                    title="Smooth strokes"
+                  >
+                    〰️
+                  </button>
+                  {canvasStore.currentTool === "pen" && (
+                    <button
+                      className={`tool-btn ${
+                        canvasStore.strokeProcessing.shapeAssist ? "active" : ""
+                      }`}
+                      onClick={() =>
+                        canvasStore.changeStrokeProcessing({
+                          shapeAssist: !canvasStore.strokeProcessing.shapeAssist,
+                        })
+                      }
+                      title="Shape assist: turn rough lines, rectangles, circles, ellipses and triangles into clean shapes"
+                    >
+                      ✨
+                    </button>
+                  )}
+                  <select
+                    className="option-select"
+                    value={canvasStore.strokeProcessing.simplifyTolerance}
+                    onChange={(e) =>
+                      canvasStore.changeStrokeProcessing({
+                        simplifyTolerance: Number(e.target.value),
+                      })
+                    }
+                    title="Stroke simplification"
+                  >
+                    {SIMPLIFY_TOLERANCES.map((tolerance) => (
+                      <option key={tolerance.value} value={tolerance.value}>
+                        {tolerance.name}
+                      </option>
+                    ))}
+                  </select>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Fill Section */}
+        {showFillOptions && (
+          <div className="toolbar-section fill-section">
+            <span className="section-label">Fill:</span>
+            <div className="tool-options">
+              <button
+                className={`color-btn no-fill-btn ${hasFill ? "" : "active"}`}
+                onClick={() => canvasStore.changeFillColor(NO_FILL)}
+                title="No fill"
+              />
+              <input
+                type="color"
+                value={hasFill ? canvasStore.currentFillColor : "#FFFFFF"}
+                onChange={(e) => canvasStore.changeFillColor(e.target.value)}
+                className={`custom-color-btn ${hasFill ? "active" : ""}`}
+                title="Fill color"
+              />
+            </div>
+          </div>
+        )}
+
+        {/* Grid Section */}
+        <div className="toolbar-section grid-section">
+          <span className="section-label">Grid:</span>
+          <div className="tool-options">
+            <button
+              className={`tool-btn ${canvasStore.grid.visible ? "active" : ""}`}
+              onClick={() =>
+                canvasStore.changeGrid({ visible: !canvasStore.grid.visible })
+              }
+              title="Show grid"
+            >
+              ▦
+            </button>
+            <button
+              className={`tool-btn ${canvasStore.grid.snap ? "active" : ""}`}
+              onClick={() =>
+                canvasStore.changeGrid({ snap: !canvasStore.grid.snap })
+              }
+              title="Snap to grid (hold Ctrl/Cmd while drawing to ignore it)"
+            >
+              🧲
+            </button>
+            <button
+              className={`tool-btn ${canvasStore.grid.guides ? "active" : ""}`}
+              onClick={() =>
+                canvasStore.changeGrid({ guides: !canvasStore.grid.guides })
+              }
+              title="Smart guides: snap rectangles, circles and ellipses to other shapes"
+            >
+              📐
+            </button>
+            <select
+              className="option-select"
+              value={canvasStore.grid.spacing}
+              onChange={(e) =>
+                canvasStore.changeGrid({ spacing: Number(e.target.value) })
+              }
+              title="Grid spacing"
+            >
+              {GRID_SPACINGS.map((spacing) => (
+                <option key={spacing} value={spacing}>
+                  {spacing}px
+                </option>
+              ))}
+            </select>
+          </div>
         </div>
 
         {/* Colors Section */}
@@ -88,14 +464,14 @@ const Toolbar: React.FC<ToolbarProps> = ({ className = "" }) => {
                   canvasStore.currentColor === color ? "active" : ""
                 }`}
                 style={{ backgroundColor: color }}
-                onClick={() => canvasStore.changeColor(color)}
+                onClick={() => handleColorChange(color)}
                 title={color}
               />
             ))}
             <input
               type="color"
               value={canvasStore.currentColor}
-              onChange={(e) => canvasStore.changeColor(e.target.value)}
+              onChange={(e) => handleColorChange(e.target.value)}
               className="custom-color-btn"
               title="Custom color"
             />
@@ -124,6 +500,46 @@ const Toolbar: React.FC<ToolbarProps> = ({ className = "" }) => {
             >
               ↷
             </button>
+            <button
+              className="action-btn"
+              onClick={canvasStore.deleteSelected}
+              disabled={!hasSelection}
+              title="Delete selected shapes"
+            >
+              ✂️
+            </button>
+            <button
+              className="action-btn"
+              onClick={canvasStore.bringToFront}
+              disabled={!hasSelection}
+              title="Bring to front"
+            >
+              ⤒
+            </button>
+            <button
+              className="action-btn"
+              onClick={canvasStore.bringForward}
+              disabled={!hasSelection}
+              title="Bring forward"
+            >
+              ↑
+            </button>
+            <button
+              className="action-btn"
+              onClick={canvasStore.sendBackward}
+              disabled={!hasSelection}
+              title="Send backward"
+            >
+              ↓
+            </button>
+            <button
+              className="action-btn"
+              onClick={canvasStore.sendToBack}
+              disabled={!hasSelection}
+              title="Send to back"
+            >
+              ⤓
+            </button>
             <button
               className="action-btn clear-btn"
               onClick={canvasStore.clear}
@@ -142,24 +558,60 @@ const Toolbar: React.FC<ToolbarProps> = ({ className = "" }) => {
             <select
               className="history-dropdown"
               value={canvasStore.historyIndex}
+              onChange={(e) =>
+                canvasStore.goToHistory(parseInt(e.target.value))
+              }
+              disabled={canvasStore.history.length === 0}
+            >
+              {historyShapeCounts.map((shapeCount, index) => (
+                <option key={index} value={index}>
+                  Step {index + 1}:{" "}
+                  {index === 0
+                    ? "Start"
+                    : describeHistoryEntry(canvasStore.history[index - 1])}{" "}
+                  ({shapeCount} shapes)
+                </option>
+              ))}
+            </select>
+            <button
+              className="action-btn"
+              onClick={handleLabelStep}
+              disabled={!canUndo}
+              title="Name the current history step"
+            >
+              🏷️
+            </button>
+            <button
+              className={`tool-btn ${
+                canvasStore.historyMode === "tree" ? "active" : ""
+              }`}
+              onClick={() =>
+                canvasStore.setHistoryMode(
+                  canvasStore.historyMode === "tree" ? "linear" : "tree"
+                )
+              }
+              title={
+                canvasStore.historyMode === "tree"
+                  ? "Undo tree: changes after undo keep undone steps as branches (click for linear history, dropping branches)"
+                  : "Linear history: changes after undo discard undone steps (click to keep them as branches)"
+              }
+            >
+              🌳
+            </button>
+            <select
+              className="option-select"
+              value={historyLimitKey(historyLimit)}
               onChange={(e) => {
-                const targetIndex = parseInt(e.target.value);
-                const steps = targetIndex - canvasStore.historyIndex;
-                if (steps < 0) {
-                  for (let i = 0; i < Math.abs(steps); i++) {
-                    canvasStore.undo();
-                  }
-                } else if (steps > 0) {
-                  for (let i = 0; i < steps; i++) {
-                    canvasStore.redo();
-                  }
-                }
+                const limit = historyLimitOptions.find(
+                  (option) => historyLimitKey(option) === e.target.value
+                );
+                if (limit) setHistoryLimit(limit);
               }}
-              disabled={canvasStore.history.length <= 1}
+              title="How much history to keep before the oldest steps are discarded"
             >
-              {canvasStore.history.map((historyState, index) => (
-                <option key={index} value={index}>
-                  Step {index + 1}: {historyState.length} shapes
+              {historyLimitOptions.map((limit) => (
+                <option key={historyLimitKey(limit)} value={historyLimitKey(limit)}>
+                  Keep: {describeHistoryLimit(limit)}
                 </option>
               ))}
             </select>
@@ -171,6 +623,11 @@ const Toolbar: React.FC<ToolbarProps> = ({ className = "" }) => {
           <span className="section-label">Canvas:</span>
           <div className="canvas-stats">
             <span className="stat">{canvasStore.shapes.length} shapes</span>
+            {hasSelection && (
+              <span className="stat">
+                {canvasStore.selectedShapeIds.length} selected
+              </span>
+            )}
             <span className="stat">
               {canvasStore.isDrawing ? "✏️ Drawing" : "⏸️ Idle"}
             </span>
@@ -20,11 +20,15 @@ export { useContextState } from './useContextState'
 export type { 
   StoreType, 
   StoreConfig, 
-  StoreAdapterRegistry 
+  StoreAdapterRegistry,
+  SwitchPolicy,
+  SwitchPolicyConfig,
+  StoreSwitchRecord
 } from './storeAdapter'
 
 export { 
-  STORE_CONFIGS
+  STORE_CONFIGS,
+  SWITCH_POLICY_CONFIGS
 } from './storeAdapter'
 
 // ============================================================================
@@ -37,15 +41,27 @@ export {
   useTypedCanvasStore,
   useCanvasStoreWithType,
   useStoreUtils,
+  useStoreSwitchLog,
   useStoreDebugInfo
 } from './useCanvasStoreHooks'
 
+// ============================================================================
+// Settings
+// ============================================================================
+
+export {
+  usePersistedHistoryLimit,
+  loadHistoryLimit,
+  saveHistoryLimit
+} from './usePersistedHistoryLimit'
+
 // ============================================================================
 // Store Provider
 // ============================================================================
 
 export { StoreTypeProvider } from './useCanvasStore'
 export { StoreTypeContext } from './storeTypeContext'
+export { StoreSwitchLogContext } from './storeSwitchContext'
 
 // ============================================================================
 // Re-export Types
@@ -63,7 +79,8 @@ export {
   useZustandCanvasActions,
   useZustandHistory,
   useZustandDrawing,
-  useZustandTools
+  useZustandTools,
+  useZustandViewportActions
 } from './useZustandState'
 
 // Redux specific hooks  
@@ -72,7 +89,8 @@ export {
   useReduxCanvasActions,
   useReduxHistoryActions,
   useReduxDrawing,
-  useReduxTools
+  useReduxTools,
+  useReduxViewportActions
 } from './useReduxState'
 
 // Context specific hooks
@@ -81,5 +99,6 @@ export {
   useContextCanvasActions,
   useContextHistoryActions,
   useContextDrawing,
-  useContextTools
+  useContextTools,
+  useContextViewportActions
 } from './useContextState'
\ No newline at end of file
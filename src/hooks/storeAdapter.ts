@@ -110,6 +110,56 @@ export const STORE_CONFIGS: Record<StoreType, StoreConfig> = {
   }
 }
 
+// ============================================================================
+// Store Switching
+// ============================================================================
+
+/**
+ * What happens to the drawing when switching between store implementations
+ * - preserve: carry the outgoing store's state over unchanged
+ * - reset: start the incoming store from a blank canvas
+ * - merge: combine the shapes of both stores
+ */
+export type SwitchPolicy = 'preserve' | 'reset' | 'merge'
+
+/**
+ * Switch policy configuration for UI display
+ */
+export interface SwitchPolicyConfig {
+  name: string
+  description: string
+}
+
+/**
+ * Switch policy configurations
+ */
+export const SWITCH_POLICY_CONFIGS: Record<SwitchPolicy, SwitchPolicyConfig> = {
+  preserve: {
+    name: 'Carry over',
+    description: 'Bring the current drawing into the new store'
+  },
+  reset: {
+    name: 'Start fresh',
+    description: 'Begin with a blank canvas in the new store'
+  },
+  merge: {
+    name: 'Merge shapes',
+    description: 'Combine the shapes of both stores'
+  }
+}
+
+/**
+ * A single recorded store switch
+ */
+export interface StoreSwitchRecord {
+  from: StoreType
+  to: StoreType
+  policy: SwitchPolicy
+  /** Number of shapes in the incoming store once the switch completed */
+  shapesCount: number
+  timestamp: number
+}
+
 // ============================================================================
 // Store Adapter Type
 // ============================================================================
@@ -0,0 +1,13 @@
+/**
+ * Store Switch Log Context
+ * 
+ * Separate file for the context to satisfy React Fast Refresh requirements
+ */
+
+import { createContext } from 'react'
+import type { StoreSwitchRecord } from './storeAdapter'
+
+/**
+ * Context for the log of store switches made through StoreManager
+ */
+export const StoreSwitchLogContext = createContext<StoreSwitchRecord[]>([])
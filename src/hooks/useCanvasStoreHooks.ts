@@ -8,10 +8,11 @@ import { useContext } from 'react'
 import { useZustandState } from './useZustandState'
 import { useReduxState } from './useReduxState'
 import { useContextState } from './useContextState'
-import type { StoreType, StoreAdapterRegistry } from './storeAdapter'
+import type { StoreType, StoreAdapterRegistry, StoreSwitchRecord } from './storeAdapter'
 import { STORE_CONFIGS } from './storeAdapter'
 import type { CanvasStore } from '../store/types'
 import { StoreTypeContext } from './storeTypeContext'
+import { StoreSwitchLogContext } from './storeSwitchContext'
 
 // ============================================================================
 // Store Registry
@@ -116,6 +117,13 @@ export const useStoreUtils = () => {
   }
 }
 
+/**
+ * Hook to read the log of store switches (oldest first)
+ */
+export const useStoreSwitchLog = (): StoreSwitchRecord[] => {
+  return useContext(StoreSwitchLogContext)
+}
+
 // ============================================================================
 // Development Helpers
 // ============================================================================
@@ -135,6 +143,7 @@ export const useStoreDebugInfo = () => {
       currentColor: store.currentColor,
       currentTool: store.currentTool,
       isDrawing: store.isDrawing,
+      selectedCount: store.selectedShapeIds.length,
       historyLength: store.history.length,
       historyIndex: store.historyIndex
     }
@@ -29,8 +29,16 @@ import {
   useContextShapes,
   useContextCurrentColor,
   useContextCurrentTool,
+  useContextEraserMode,
+  useContextStrokeStyle,
+  useContextTextStyle,
+  useContextViewport,
+  useContextGrid,
+  useContextStrokeProcessing,
+  useContextDrawingModifiers,
   useContextIsDrawing,
   useContextCurrentPath,
+  useContextSelectedShapeIds,
   useContextHistory
 } from '../store/contextHooks'
 
@@ -39,10 +47,20 @@ export const useContextCanvasState = () => ({
   shapes: useContextShapes(),
   currentColor: useContextCurrentColor(),
   currentTool: useContextCurrentTool(),
+  eraserMode: useContextEraserMode(),
+  ...useContextStrokeStyle(),
+  ...useContextTextStyle(),
+  viewport: useContextViewport(),
+  grid: useContextGrid(),
+  strokeProcessing: useContextStrokeProcessing(),
+  drawingModifiers: useContextDrawingModifiers(),
   isDrawing: useContextIsDrawing(),
   currentPath: useContextCurrentPath(),
+  selectedShapeIds: useContextSelectedShapeIds(),
   history: useContextHistory().history,
   historyIndex: useContextHistory().historyIndex,
+  historyMode: useContextHistory().historyMode,
+  historyLimit: useContextHistory().historyLimit,
 })
 
 // Actions-only hook (for components that only trigger actions)
@@ -58,6 +76,11 @@ export const useContextHistoryActions = () => {
     canRedo: history.canRedo,
     undo: actions.undo,
     redo: actions.redo,
+    goToHistory: actions.goToHistory,
+    setHistoryLabel: actions.setHistoryLabel,
+    setHistoryMode: actions.setHistoryMode,
+    switchHistoryBranch: actions.switchHistoryBranch,
+    setHistoryLimit: actions.setHistoryLimit,
   }
 }
 
@@ -68,9 +91,12 @@ export const useContextDrawing = () => {
   return {
     isDrawing: useContextIsDrawing(),
     currentPath: useContextCurrentPath(),
+    drawingModifiers: useContextDrawingModifiers(),
     startDrawing: actions.startDrawing,
     continueDrawing: actions.continueDrawing,
     finishDrawing: actions.finishDrawing,
+    closePolygon: actions.closePolygon,
+    setDrawingModifiers: actions.setDrawingModifiers,
   }
 }
 
@@ -81,7 +107,35 @@ export const useContextTools = () => {
   return {
     currentColor: useContextCurrentColor(),
     currentTool: useContextCurrentTool(),
+    eraserMode: useContextEraserMode(),
+    ...useContextStrokeStyle(),
+    ...useContextTextStyle(),
+    grid: useContextGrid(),
+    strokeProcessing: useContextStrokeProcessing(),
     changeColor: actions.changeColor,
     changeTool: actions.changeTool,
+    changeEraserMode: actions.changeEraserMode,
+    changeStrokeWidth: actions.changeStrokeWidth,
+    changeOpacity: actions.changeOpacity,
+    changeDash: actions.changeDash,
+    changeFillColor: actions.changeFillColor,
+    changeArrowheads: actions.changeArrowheads,
+    changeFontSize: actions.changeFontSize,
+    changeFontFamily: actions.changeFontFamily,
+    changeGrid: actions.changeGrid,
+    changeStrokeProcessing: actions.changeStrokeProcessing,
+  }
+}
+
+// Viewport (pan and zoom) hooks
+export const useContextViewportActions = () => {
+  const actions = useCanvasActions()
+  
+  return {
+    viewport: useContextViewport(),
+    pan: actions.pan,
+    zoomAt: actions.zoomAt,
+    zoomToFit: actions.zoomToFit,
+    resetView: actions.resetView,
   }
 }
\ No newline at end of file
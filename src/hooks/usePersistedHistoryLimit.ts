@@ -0,0 +1,83 @@
+/**
+ * Persisted History Limit
+ *
+ * Keeps the history limit setting in localStorage so it carries over
+ * between sessions and applies to whichever store is active
+ */
+
+import { useCallback, useEffect } from 'react'
+import type { HistoryLimit } from '../store/types'
+import { useCanvasStore } from './useCanvasStoreHooks'
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const HISTORY_LIMIT_STORAGE_KEY = 'canvas-editor.historyLimit'
+
+const isHistoryLimit = (value: unknown): value is HistoryLimit => {
+  if (typeof value !== 'object' || value === null) return false
+  
+  const limit = value as Partial<Record<string, unknown>>
+  switch (limit.type) {
+    case 'entries':
+      return typeof limit.maxEntries === 'number' && limit.maxEntries > 0
+    case 'memory':
+      return typeof limit.maxBytes === 'number' && limit.maxBytes > 0
+    case 'unlimited':
+      return true
+    default:
+      return false
+  }
+}
+
+/**
+ * Reads the saved history limit, or null when none is saved
+ */
+export const loadHistoryLimit = (): HistoryLimit | null => {
+  try {
+    const saved = localStorage.getItem(HISTORY_LIMIT_STORAGE_KEY)
+    if (!saved) return null
+    
+    const limit: unknown = JSON.parse(saved)
+    return isHistoryLimit(limit) ? limit : null
+  } catch {
+    // Storage may be unavailable (private browsing) or hold something unreadable
+    return null
+  }
+}
+
+/**
+ * Saves the history limit; the setting still applies if storage is unavailable
+ */
+export const saveHistoryLimit = (limit: HistoryLimit): void => {
+  try {
+    localStorage.setItem(HISTORY_LIMIT_STORAGE_KEY, JSON.stringify(limit))
+  } catch {
+    // Nothing to do - the limit just won't outlive this session
+  }
+}
+
+// ============================================================================
+// Hook
+// ============================================================================
+
+/**
+ * The current store's history limit, with a setter that also saves it
+ * The saved limit is applied to each store as it becomes active
+ */
+export const usePersistedHistoryLimit = (): [HistoryLimit, (limit: HistoryLimit) => void] => {
+  const { historyLimit, setHistoryLimit } = useCanvasStore()
+  
+  useEffect(() => {
+    const saved = loadHistoryLimit()
+    if (saved) setHistoryLimit(saved)
+  }, [setHistoryLimit])
+  
+  const setPersistedHistoryLimit = useCallback((limit: HistoryLimit) => {
+    saveHistoryLimit(limit)
+    setHistoryLimit(limit)
+  }, [setHistoryLimit])
+  
+  return [historyLimit, setPersistedHistoryLimit]
+}
@@ -12,8 +12,23 @@ import {
   useReduxShapes,
   useReduxCurrentColor,
   useReduxCurrentTool,
+  useReduxEraserMode,
+  useReduxCurrentStrokeWidth,
+  useReduxCurrentOpacity,
+  useReduxCurrentDash,
+  useReduxCurrentFillColor,
+  useReduxCurrentArrowheads,
+  useReduxCurrentFontSize,
+  useReduxCurrentFontFamily,
+  useReduxViewport,
+  useReduxGrid,
+  useReduxStrokeProcessing,
+  useReduxHistoryMode,
+  useReduxHistoryLimit,
+  useReduxDrawingModifiers,
   useReduxIsDrawing,
   useReduxCurrentPath,
+  useReduxSelectedShapeIds,
   useReduxHistory as useReduxHistoryState,
   useReduxHistoryIndex,
   useReduxCanUndo,
@@ -21,17 +36,66 @@ import {
 } from '../store/reduxHooks'
 import {
   addShape as addShapeAction,
+  selectShape as selectShapeAction,
+  deselectAll as deselectAllAction,
+  deleteSelected as deleteSelectedAction,
+  moveSelected as moveSelectedAction,
+  transformSelected as transformSelectedAction,
+  bringToFront as bringToFrontAction,
+  sendToBack as sendToBackAction,
+  bringForward as bringForwardAction,
+  sendBackward as sendBackwardAction,
+  recolorSelected as recolorSelectedAction,
+  setShapeFill as setShapeFillAction,
+  updateText as updateTextAction,
   changeColor as changeColorAction,
   changeTool as changeToolAction,
+  changeEraserMode as changeEraserModeAction,
+  changeStrokeWidth as changeStrokeWidthAction,
+  changeOpacity as changeOpacityAction,
+  changeDash as changeDashAction,
+  changeFillColor as changeFillColorAction,
+  changeArrowheads as changeArrowheadsAction,
+  changeFontSize as changeFontSizeAction,
+  changeFontFamily as changeFontFamilyAction,
+  changeGrid as changeGridAction,
+  changeStrokeProcessing as changeStrokeProcessingAction,
+  pan as panAction,
+  zoomAt as zoomAtAction,
+  zoomToFit as zoomToFitAction,
+  resetView as resetViewAction,
   startDrawing as startDrawingAction,
   continueDrawing as continueDrawingAction,
   finishDrawing as finishDrawingAction,
+  closePolygon as closePolygonAction,
+  setDrawingModifiers as setDrawingModifiersAction,
   undo as undoAction,
   redo as redoAction,
+  goToHistory as goToHistoryAction,
+  setHistoryLabel as setHistoryLabelAction,
+  setHistoryMode as setHistoryModeAction,
+  switchHistoryBranch as switchHistoryBranchAction,
+  setHistoryLimit as setHistoryLimitAction,
   clear as clearAction,
-  reset as resetAction
+  reset as resetAction,
+  hydrate as hydrateAction
 } from '../store/reduxStore'
-import type { CanvasStore, Point, DrawingTool } from '../store/types'
+import type {
+  CanvasStore,
+  CanvasState,
+  NewShapeData,
+  Point,
+  DrawingTool,
+  EraserMode,
+  LineDash,
+  Arrowheads,
+  GridSettings,
+  DrawingModifiers,
+  StrokeProcessingSettings,
+  ShapeTransform,
+  HistoryMode,
+  HistoryLimit
+} from '../store/types'
 
 /**
  * Unified Redux hook that provides the complete store interface
@@ -44,20 +108,79 @@ export const useReduxState = (): CanvasStore => {
   const shapes = useReduxShapes()
   const currentColor = useReduxCurrentColor()
   const currentTool = useReduxCurrentTool()
+  const eraserMode = useReduxEraserMode()
+  const currentStrokeWidth = useReduxCurrentStrokeWidth()
+  const currentOpacity = useReduxCurrentOpacity()
+  const currentDash = useReduxCurrentDash()
+  const currentFillColor = useReduxCurrentFillColor()
+  const currentArrowheads = useReduxCurrentArrowheads()
+  const currentFontSize = useReduxCurrentFontSize()
+  const currentFontFamily = useReduxCurrentFontFamily()
+  const viewport = useReduxViewport()
+  const grid = useReduxGrid()
+  const strokeProcessing = useReduxStrokeProcessing()
+  const historyMode = useReduxHistoryMode()
+  const historyLimit = useReduxHistoryLimit()
+  const drawingModifiers = useReduxDrawingModifiers()
   const isDrawing = useReduxIsDrawing()
   const currentPath = useReduxCurrentPath()
+  const selectedShapeIds = useReduxSelectedShapeIds()
   const history = useReduxHistoryState()
   const historyIndex = useReduxHistoryIndex()
 
   // Create action dispatchers
-  const addShape = useCallback((shapeData: {
-    points: Point[]
-    color: string
-    type: DrawingTool
-  }) => {
+  const addShape = useCallback((shapeData: NewShapeData) => {
     dispatch(addShapeAction(shapeData))
   }, [dispatch])
 
+  const selectShape = useCallback((id: string, additive?: boolean) => {
+    dispatch(selectShapeAction(id, additive))
+  }, [dispatch])
+
+  const deselectAll = useCallback(() => {
+    dispatch(deselectAllAction())
+  }, [dispatch])
+
+  const deleteSelected = useCallback(() => {
+    dispatch(deleteSelectedAction())
+  }, [dispatch])
+
+  const moveSelected = useCallback((dx: number, dy: number) => {
+    dispatch(moveSelectedAction(dx, dy))
+  }, [dispatch])
+
+  const transformSelected = useCallback((transform: ShapeTransform) => {
+    dispatch(transformSelectedAction(transform))
+  }, [dispatch])
+
+  const bringToFront = useCallback(() => {
+    dispatch(bringToFrontAction())
+  }, [dispatch])
+
+  const sendToBack = useCallback(() => {
+    dispatch(sendToBackAction())
+  }, [dispatch])
+
+  const bringForward = useCallback(() => {
+    dispatch(bringForwardAction())
+  }, [dispatch])
+
+  const sendBackward = useCallback(() => {
+    dispatch(sendBackwardAction())
+  }, [dispatch])
+
+  const recolorSelected = useCallback((color: string) => {
+    dispatch(recolorSelectedAction(color))
+  }, [dispatch])
+
+  const setShapeFill = useCallback((id: string, fillColor: string) => {
+    dispatch(setShapeFillAction(id, fillColor))
+  }, [dispatch])
+
+  const updateText = useCallback((id: string, text: string) => {
+    dispatch(updateTextAction(id, text))
+  }, [dispatch])
+
   const changeColor = useCallback((color: string) => {
     dispatch(changeColorAction(color))
   }, [dispatch])
@@ -66,6 +189,62 @@ export const useReduxState = (): CanvasStore => {
     dispatch(changeToolAction(tool))
   }, [dispatch])
 
+  const changeEraserMode = useCallback((mode: EraserMode) => {
+    dispatch(changeEraserModeAction(mode))
+  }, [dispatch])
+
+  const changeStrokeWidth = useCallback((width: number) => {
+    dispatch(changeStrokeWidthAction(width))
+  }, [dispatch])
+
+  const changeOpacity = useCallback((opacity: number) => {
+    dispatch(changeOpacityAction(opacity))
+  }, [dispatch])
+
+  const changeDash = useCallback((dash: LineDash) => {
+    dispatch(changeDashAction(dash))
+  }, [dispatch])
+
+  const changeFillColor = useCallback((fillColor: string) => {
+    dispatch(changeFillColorAction(fillColor))
+  }, [dispatch])
+
+  const changeArrowheads = useCallback((arrowheads: Arrowheads) => {
+    dispatch(changeArrowheadsAction(arrowheads))
+  }, [dispatch])
+
+  const changeFontSize = useCallback((fontSize: number) => {
+    dispatch(changeFontSizeAction(fontSize))
+  }, [dispatch])
+
+  const changeFontFamily = useCallback((fontFamily: string) => {
+    dispatch(changeFontFamilyAction(fontFamily))
+  }, [dispatch])
+
+  const changeGrid = useCallback((settings: Partial<GridSettings>) => {
+    dispatch(changeGridAction(settings))
+  }, [dispatch])
+
+  const changeStrokeProcessing = useCallback((settings: Partial<StrokeProcessingSettings>) => {
+    dispatch(changeStrokeProcessingAction(settings))
+  }, [dispatch])
+
+  const pan = useCallback((dx: number, dy: number) => {
+    dispatch(panAction(dx, dy))
+  }, [dispatch])
+
+  const zoomAt = useCallback((point: Point, factor: number) => {
+    dispatch(zoomAtAction(point, factor))
+  }, [dispatch])
+
+  const zoomToFit = useCallback((width: number, height: number) => {
+    dispatch(zoomToFitAction(width, height))
+  }, [dispatch])
+
+  const resetView = useCallback(() => {
+    dispatch(resetViewAction())
+  }, [dispatch])
+
   const startDrawing = useCallback((startPoint: Point) => {
     dispatch(startDrawingAction(startPoint))
   }, [dispatch])
@@ -78,6 +257,14 @@ export const useReduxState = (): CanvasStore => {
     dispatch(finishDrawingAction())
   }, [dispatch])
 
+  const closePolygon = useCallback(() => {
+    dispatch(closePolygonAction())
+  }, [dispatch])
+
+  const setDrawingModifiers = useCallback((modifiers: DrawingModifiers) => {
+    dispatch(setDrawingModifiersAction(modifiers))
+  }, [dispatch])
+
   const undo = useCallback(() => {
     dispatch(undoAction())
   }, [dispatch])
@@ -86,6 +273,26 @@ export const useReduxState = (): CanvasStore => {
     dispatch(redoAction())
   }, [dispatch])
 
+  const goToHistory = useCallback((index: number) => {
+    dispatch(goToHistoryAction(index))
+  }, [dispatch])
+
+  const setHistoryLabel = useCallback((index: number, label: string) => {
+    dispatch(setHistoryLabelAction(index, label))
+  }, [dispatch])
+
+  const setHistoryMode = useCallback((mode: HistoryMode) => {
+    dispatch(setHistoryModeAction(mode))
+  }, [dispatch])
+
+  const switchHistoryBranch = useCallback((branchId: string) => {
+    dispatch(switchHistoryBranchAction(branchId))
+  }, [dispatch])
+
+  const setHistoryLimit = useCallback((limit: HistoryLimit) => {
+    dispatch(setHistoryLimitAction(limit))
+  }, [dispatch])
+
   const clear = useCallback(() => {
     dispatch(clearAction())
   }, [dispatch])
@@ -94,27 +301,80 @@ export const useReduxState = (): CanvasStore => {
     dispatch(resetAction())
   }, [dispatch])
 
+  const hydrate = useCallback((canvasState: CanvasState) => {
+    dispatch(hydrateAction(canvasState))
+  }, [dispatch])
+
   return {
     // State
     shapes,
     currentColor,
     currentTool,
+    eraserMode,
+    currentStrokeWidth,
+    currentOpacity,
+    currentDash,
+    currentFillColor,
+    currentArrowheads,
+    currentFontSize,
+    currentFontFamily,
+    viewport,
+    grid,
+    strokeProcessing,
+    historyMode,
+    historyLimit,
+    drawingModifiers,
     history,
     historyIndex,
     isDrawing,
     currentPath,
+    selectedShapeIds,
     
     // Actions
     addShape,
+    selectShape,
+    deselectAll,
+    deleteSelected,
+    moveSelected,
+    transformSelected,
+    bringToFront,
+    sendToBack,
+    bringForward,
+    sendBackward,
+    recolorSelected,
+    setShapeFill,
+    updateText,
     changeColor,
     changeTool,
+    changeEraserMode,
+    changeStrokeWidth,
+    changeOpacity,
+    changeDash,
+    changeFillColor,
+    changeArrowheads,
+    changeFontSize,
+    changeFontFamily,
+    changeGrid,
+    changeStrokeProcessing,
+    pan,
+    zoomAt,
+    zoomToFit,
+    resetView,
     startDrawing,
     continueDrawing,
     finishDrawing,
+    closePolygon,
+    setDrawingModifiers,
     undo,
     redo,
+    goToHistory,
+    setHistoryLabel,
+    setHistoryMode,
+    switchHistoryBranch,
+    setHistoryLimit,
     clear,
-    reset
+    reset,
+    hydrate
   }
 }
 
@@ -128,8 +388,23 @@ export const useReduxCanvasState = () => ({
   shapes: useReduxShapes(),
   currentColor: useReduxCurrentColor(),
   currentTool: useReduxCurrentTool(),
+  eraserMode: useReduxEraserMode(),
+  currentStrokeWidth: useReduxCurrentStrokeWidth(),
+  currentOpacity: useReduxCurrentOpacity(),
+  currentDash: useReduxCurrentDash(),
+  currentFillColor: useReduxCurrentFillColor(),
+  currentArrowheads: useReduxCurrentArrowheads(),
+  currentFontSize: useReduxCurrentFontSize(),
+  currentFontFamily: useReduxCurrentFontFamily(),
+  viewport: useReduxViewport(),
+  grid: useReduxGrid(),
+  strokeProcessing: useReduxStrokeProcessing(),
+  historyMode: useReduxHistoryMode(),
+  historyLimit: useReduxHistoryLimit(),
+  drawingModifiers: useReduxDrawingModifiers(),
   isDrawing: useReduxIsDrawing(),
   currentPath: useReduxCurrentPath(),
+  selectedShapeIds: useReduxSelectedShapeIds(),
   history: useReduxHistoryState(),
   historyIndex: useReduxHistoryIndex(),
 })
@@ -142,12 +417,90 @@ export const useReduxCanvasActions = () => {
     addShape: useCallback((shapeData: Parameters<typeof addShapeAction>[0]) => {
       dispatch(addShapeAction(shapeData))
     }, [dispatch]),
+    selectShape: useCallback((id: string, additive?: boolean) => {
+      dispatch(selectShapeAction(id, additive))
+    }, [dispatch]),
+    deselectAll: useCallback(() => {
+      dispatch(deselectAllAction())
+    }, [dispatch]),
+    deleteSelected: useCallback(() => {
+      dispatch(deleteSelectedAction())
+    }, [dispatch]),
+    moveSelected: useCallback((dx: number, dy: number) => {
+      dispatch(moveSelectedAction(dx, dy))
+    }, [dispatch]),
+    transformSelected: useCallback((transform: ShapeTransform) => {
+      dispatch(transformSelectedAction(transform))
+    }, [dispatch]),
+    bringToFront: useCallback(() => {
+      dispatch(bringToFrontAction())
+    }, [dispatch]),
+    sendToBack: useCallback(() => {
+      dispatch(sendToBackAction())
+    }, [dispatch]),
+    bringForward: useCallback(() => {
+      dispatch(bringForwardAction())
+    }, [dispatch]),
+    sendBackward: useCallback(() => {
+      dispatch(sendBackwardAction())
+    }, [dispatch]),
+    recolorSelected: useCallback((color: string) => {
+      dispatch(recolorSelectedAction(color))
+    }, [dispatch]),
+    setShapeFill: useCallback((id: string, fillColor: string) => {
+      dispatch(setShapeFillAction(id, fillColor))
+    }, [dispatch]),
+    updateText: useCallback((id: string, text: string) => {
+      dispatch(updateTextAction(id, text))
+    }, [dispatch]),
     changeColor: useCallback((color: string) => {
       dispatch(changeColorAction(color))
     }, [dispatch]),
     changeTool: useCallback((tool: DrawingTool) => {
       dispatch(changeToolAction(tool))
     }, [dispatch]),
+    changeEraserMode: useCallback((mode: EraserMode) => {
+      dispatch(changeEraserModeAction(mode))
+    }, [dispatch]),
+    changeStrokeWidth: useCallback((width: number) => {
+      dispatch(changeStrokeWidthAction(width))
+    }, [dispatch]),
+    changeOpacity: useCallback((opacity: number) => {
+      dispatch(changeOpacityAction(opacity))
+    }, [dispatch]),
+    changeDash: useCallback((dash: LineDash) => {
+      dispatch(changeDashAction(dash))
+    }, [dispatch]),
+    changeFillColor: useCallback((fillColor: string) => {
+      dispatch(changeFillColorAction(fillColor))
+    }, [dispatch]),
+    changeArrowheads: useCallback((arrowheads: Arrowheads) => {
+      dispatch(changeArrowheadsAction(arrowheads))
+    }, [dispatch]),
+    changeFontSize: useCallback((fontSize: number) => {
+      dispatch(changeFontSizeAction(fontSize))
+    }, [dispatch]),
+    changeFontFamily: useCallback((fontFamily: string) => {
+      dispatch(changeFontFamilyAction(fontFamily))
+    }, [dispatch]),
+    changeGrid: useCallback((settings: Partial<GridSettings>) => {
+      dispatch(changeGridAction(settings))
+    }, [dispatch]),
+    changeStrokeProcessing: useCallback((settings: Partial<StrokeProcessingSettings>) => {
+      dispatch(changeStrokeProcessingAction(settings))
+    }, [dispatch]),
+    pan: useCallback((dx: number, dy: number) => {
+      dispatch(panAction(dx, dy))
+    }, [dispatch]),
+    zoomAt: useCallback((point: Point, factor: number) => {
+      dispatch(zoomAtAction(point, factor))
+    }, [dispatch]),
+    zoomToFit: useCallback((width: number, height: number) => {
+      dispatch(zoomToFitAction(width, height))
+    }, [dispatch]),
+    resetView: useCallback(() => {
+      dispatch(resetViewAction())
+    }, [dispatch]),
     startDrawing: useCallback((startPoint: Point) => {
       dispatch(startDrawingAction(startPoint))
     }, [dispatch]),
@@ -157,17 +510,41 @@ export const useReduxCanvasActions = () => {
     finishDrawing: useCallback(() => {
       dispatch(finishDrawingAction())
     }, [dispatch]),
+    closePolygon: useCallback(() => {
+      dispatch(closePolygonAction())
+    }, [dispatch]),
+    setDrawingModifiers: useCallback((modifiers: DrawingModifiers) => {
+      dispatch(setDrawingModifiersAction(modifiers))
+    }, [dispatch]),
     undo: useCallback(() => {
       dispatch(undoAction())
     }, [dispatch]),
     redo: useCallback(() => {
       dispatch(redoAction())
     }, [dispatch]),
+    goToHistory: useCallback((index: number) => {
+      dispatch(goToHistoryAction(index))
+    }, [dispatch]),
+    setHistoryLabel: useCallback((index: number, label: string) => {
+      dispatch(setHistoryLabelAction(index, label))
+    }, [dispatch]),
+    setHistoryMode: useCallback((mode: HistoryMode) => {
+      dispatch(setHistoryModeAction(mode))
+    }, [dispatch]),
+    switchHistoryBranch: useCallback((branchId: string) => {
+      dispatch(switchHistoryBranchAction(branchId))
+    }, [dispatch]),
+    setHistoryLimit: useCallback((limit: HistoryLimit) => {
+      dispatch(setHistoryLimitAction(limit))
+    }, [dispatch]),
     clear: useCallback(() => {
       dispatch(clearAction())
     }, [dispatch]),
     reset: useCallback(() => {
       dispatch(resetAction())
+    }, [dispatch]),
+    hydrate: useCallback((canvasState: CanvasState) => {
+      dispatch(hydrateAction(canvasState))
     }, [dispatch])
   }
 }
@@ -184,6 +561,21 @@ export const useReduxHistoryActions = () => {
     }, [dispatch]),
     redo: useCallback(() => {
       dispatch(redoAction())
+    }, [dispatch]),
+    goToHistory: useCallback((index: number) => {
+      dispatch(goToHistoryAction(index))
+    }, [dispatch]),
+    setHistoryLabel: useCallback((index: number, label: string) => {
+      dispatch(setHistoryLabelAction(index, label))
+    }, [dispatch]),
+    setHistoryMode: useCallback((mode: HistoryMode) => {
+      dispatch(setHistoryModeAction(mode))
+    }, [dispatch]),
+    switchHistoryBranch: useCallback((branchId: string) => {
+      dispatch(switchHistoryBranchAction(branchId))
+    }, [dispatch]),
+    setHistoryLimit: useCallback((limit: HistoryLimit) => {
+      dispatch(setHistoryLimitAction(limit))
     }, [dispatch])
   }
 }
@@ -195,6 +587,7 @@ export const useReduxDrawing = () => {
   return {
     isDrawing: useReduxIsDrawing(),
     currentPath: useReduxCurrentPath(),
+    drawingModifiers: useReduxDrawingModifiers(),
     startDrawing: useCallback((startPoint: Point) => {
       dispatch(startDrawingAction(startPoint))
     }, [dispatch]),
@@ -203,6 +596,12 @@ export const useReduxDrawing = () => {
     }, [dispatch]),
     finishDrawing: useCallback(() => {
       dispatch(finishDrawingAction())
+    }, [dispatch]),
+    closePolygon: useCallback(() => {
+      dispatch(closePolygonAction())
+    }, [dispatch]),
+    setDrawingModifiers: useCallback((modifiers: DrawingModifiers) => {
+      dispatch(setDrawingModifiersAction(modifiers))
     }, [dispatch])
   }
 }
@@ -214,11 +613,72 @@ export const useReduxTools = () => {
   return {
     currentColor: useReduxCurrentColor(),
     currentTool: useReduxCurrentTool(),
+    eraserMode: useReduxEraserMode(),
+    currentStrokeWidth: useReduxCurrentStrokeWidth(),
+    currentOpacity: useReduxCurrentOpacity(),
+    currentDash: useReduxCurrentDash(),
+    currentFillColor: useReduxCurrentFillColor(),
+    currentArrowheads: useReduxCurrentArrowheads(),
+    currentFontSize: useReduxCurrentFontSize(),
+    currentFontFamily: useReduxCurrentFontFamily(),
+    grid: useReduxGrid(),
+    strokeProcessing: useReduxStrokeProcessing(),
     changeColor: useCallback((color: string) => {
       dispatch(changeColorAction(color))
     }, [dispatch]),
     changeTool: useCallback((tool: DrawingTool) => {
       dispatch(changeToolAction(tool))
+    }, [dispatch]),
+    changeEraserMode: useCallback((mode: EraserMode) => {
+      dispatch(changeEraserModeAction(mode))
+    }, [dispatch]),
+    changeStrokeWidth: useCallback((width: number) => {
+      dispatch(changeStrokeWidthAction(width))
+    }, [dispatch]),
+    changeOpacity: useCallback((opacity: number) => {
+      dispatch(changeOpacityAction(opacity))
+    }, [dispatch]),
+    changeDash: useCallback((dash: LineDash) => {
+      dispatch(changeDashAction(dash))
+    }, [dispatch]),
+    changeFillColor: useCallback((fillColor: string) => {
+      dispatch(changeFillColorAction(fillColor))
+    }, [dispatch]),
+    changeArrowheads: useCallback((arrowheads: Arrowheads) => {
+      dispatch(changeArrowheadsAction(arrowheads))
+    }, [dispatch]),
+    changeFontSize: useCallback((fontSize: number) => {
+      dispatch(changeFontSizeAction(fontSize))
+    }, [dispatch]),
+    changeFontFamily: useCallback((fontFamily: string) => {
+      dispatch(changeFontFamilyAction(fontFamily))
+    }, [dispatch]),
+    changeGrid: useCallback((settings: Partial<GridSettings>) => {
+      dispatch(changeGridAction(settings))
+    }, [dispatch]),
+    changeStrokeProcessing: useCallback((settings: Partial<StrokeProcessingSettings>) => {
+      dispatch(changeStrokeProcessingAction(settings))
+    }, [dispatch])
+  }
+}
+
+// Viewport (pan and zoom) hooks
+export const useReduxViewportActions = () => {
+  const dispatch = useAppDispatch()
+  
+  return {
+    viewport: useReduxViewport(),
+    pan: useCallback((dx: number, dy: number) => {
+      dispatch(panAction(dx, dy))
+    }, [dispatch]),
+    zoomAt: useCallback((point: Point, factor: number) => {
+      dispatch(zoomAtAction(point, factor))
+    }, [dispatch]),
+    zoomToFit: useCallback((width: number, height: number) => {
+      dispatch(zoomToFitAction(width, height))
+    }, [dispatch]),
+    resetView: useCallback(() => {
+      dispatch(resetViewAction())
     }, [dispatch])
   }
 }
\ No newline at end of file
@@ -29,8 +29,23 @@ export const useZustandCanvasState = () => {
     shapes: state.shapes,
     currentColor: state.currentColor,
     currentTool: state.currentTool,
+    eraserMode: state.eraserMode,
+    currentStrokeWidth: state.currentStrokeWidth,
+    currentOpacity: state.currentOpacity,
+    currentDash: state.currentDash,
+    currentFillColor: state.currentFillColor,
+    currentArrowheads: state.currentArrowheads,
+    currentFontSize: state.currentFontSize,
+    currentFontFamily: state.currentFontFamily,
+    viewport: state.viewport,
+    grid: state.grid,
+    strokeProcessing: state.strokeProcessing,
+    historyMode: state.historyMode,
+    historyLimit: state.historyLimit,
+    drawingModifiers: state.drawingModifiers,
     isDrawing: state.isDrawing,
     currentPath: state.currentPath,
+    selectedShapeIds: state.selectedShapeIds,
     history: state.history,
     historyIndex: state.historyIndex,
   }))
@@ -40,15 +55,49 @@ export const useZustandCanvasState = () => {
 export const useZustandCanvasActions = () => {
   return useZustandStore(state => ({
     addShape: state.addShape,
+    selectShape: state.selectShape,
+    deselectAll: state.deselectAll,
+    deleteSelected: state.deleteSelected,
+    moveSelected: state.moveSelected,
+    transformSelected: state.transformSelected,
+    bringToFront: state.bringToFront,
+    sendToBack: state.sendToBack,
+    bringForward: state.bringForward,
+    sendBackward: state.sendBackward,
+    recolorSelected: state.recolorSelected,
+    setShapeFill: state.setShapeFill,
+    updateText: state.updateText,
     changeColor: state.changeColor,
     changeTool: state.changeTool,
+    changeEraserMode: state.changeEraserMode,
+    changeStrokeWidth: state.changeStrokeWidth,
+    changeOpacity: state.changeOpacity,
+    changeDash: state.changeDash,
+    changeFillColor: state.changeFillColor,
+    changeArrowheads: state.changeArrowheads,
+    changeFontSize: state.changeFontSize,
+    changeFontFamily: state.changeFontFamily,
+    changeGrid: state.changeGrid,
+    changeStrokeProcessing: state.changeStrokeProcessing,
+    pan: state.pan,
+    zoomAt: state.zoomAt,
+    zoomToFit: state.zoomToFit,
+    resetView: state.resetView,
     startDrawing: state.startDrawing,
     continueDrawing: state.continueDrawing,
     finishDrawing: state.finishDrawing,
+    closePolygon: state.closePolygon,
+    setDrawingModifiers: state.setDrawingModifiers,
     undo: state.undo,
     redo: state.redo,
+    goToHistory: state.goToHistory,
+    setHistoryLabel: state.setHistoryLabel,
+    setHistoryMode: state.setHistoryMode,
+    switchHistoryBranch: state.switchHistoryBranch,
+    setHistoryLimit: state.setHistoryLimit,
     clear: state.clear,
-    reset: state.reset
+    reset: state.reset,
+    hydrate: state.hydrate
   }))
 }
 
@@ -56,11 +105,18 @@ export const useZustandCanvasActions = () => {
 export const useZustandHistory = () => {
   return useZustandStore(state => ({
     canUndo: state.historyIndex > 0,
-    canRedo: state.historyIndex < state.history.length - 1,
+    canRedo: state.historyIndex < state.history.length,
     undo: state.undo,
     redo: state.redo,
+    goToHistory: state.goToHistory,
+    setHistoryLabel: state.setHistoryLabel,
+    setHistoryMode: state.setHistoryMode,
+    switchHistoryBranch: state.switchHistoryBranch,
+    setHistoryLimit: state.setHistoryLimit,
     historyIndex: state.historyIndex,
-    historyLength: state.history.length
+    historyLength: state.history.length,
+    historyMode: state.historyMode,
+    historyLimit: state.historyLimit
   }))
 }
 
@@ -69,9 +125,12 @@ export const useZustandDrawing = () => {
   return useZustandStore(state => ({
     isDrawing: state.isDrawing,
     currentPath: state.currentPath,
+    drawingModifiers: state.drawingModifiers,
     startDrawing: state.startDrawing,
     continueDrawing: state.continueDrawing,
     finishDrawing: state.finishDrawing,
+    closePolygon: state.closePolygon,
+    setDrawingModifiers: state.setDrawingModifiers,
   }))
 }
 
@@ -80,7 +139,38 @@ export const useZustandTools = () => {
   return useZustandStore(state => ({
     currentColor: state.currentColor,
     currentTool: state.currentTool,
+    eraserMode: state.eraserMode,
+    currentStrokeWidth: state.currentStrokeWidth,
+    currentOpacity: state.currentOpacity,
+    currentDash: state.currentDash,
+    currentFillColor: state.currentFillColor,
+    currentArrowheads: state.currentArrowheads,
+    currentFontSize: state.currentFontSize,
+    currentFontFamily: state.currentFontFamily,
+    grid: state.grid,
+    strokeProcessing: state.strokeProcessing,
     changeColor: state.changeColor,
     changeTool: state.changeTool,
+    changeEraserMode: state.changeEraserMode,
+    changeStrokeWidth: state.changeStrokeWidth,
+    changeOpacity: state.changeOpacity,
+    changeDash: state.changeDash,
+    changeFillColor: state.changeFillColor,
+    changeArrowheads: state.changeArrowheads,
+    changeFontSize: state.changeFontSize,
+    changeFontFamily: state.changeFontFamily,
+    changeGrid: state.changeGrid,
+    changeStrokeProcessing: state.changeStrokeProcessing,
+  }))
+}
+
+// Viewport (pan and zoom) hooks
+export const useZustandViewportActions = () => {
+  return useZustandStore(state => ({
+    viewport: state.viewport,
+    pan: state.pan,
+    zoomAt: state.zoomAt,
+    zoomToFit: state.zoomToFit,
+    resetView: state.resetView,
   }))
 }
\ No newline at end of file
@@ -7,7 +7,7 @@
 
 import { useContext } from 'react'
 import type { CanvasState, CanvasActions } from './types'
-import { canUndo, canRedo } from './utils'
+import { canUndo, canRedo } from './history'
 
 // Import contexts from separate file for Fast Refresh compatibility
 import { CanvasStateContext, CanvasActionsContext } from './contextContexts'
@@ -79,6 +79,50 @@ export const useContextCurrentTool = () => {
   return state.currentTool
 }
 
+export const useContextEraserMode = () => {
+  const state = useCanvasState()
+  return state.eraserMode
+}
+
+export const useContextStrokeStyle = () => {
+  const state = useCanvasState()
+  return {
+    currentStrokeWidth: state.currentStrokeWidth,
+    currentOpacity: state.currentOpacity,
+    currentDash: state.currentDash,
+    currentFillColor: state.currentFillColor,
+    currentArrowheads: state.currentArrowheads
+  }
+}
+
+export const useContextTextStyle = () => {
+  const state = useCanvasState()
+  return {
+    currentFontSize: state.currentFontSize,
+    currentFontFamily: state.currentFontFamily
+  }
+}
+
+export const useContextViewport = () => {
+  const state = useCanvasState()
+  return state.viewport
+}
+
+export const useContextGrid = () => {
+  const state = useCanvasState()
+  return state.grid
+}
+
+export const useContextStrokeProcessing = () => {
+  const state = useCanvasState()
+  return state.strokeProcessing
+}
+
+export const useContextDrawingModifiers = () => {
+  const state = useCanvasState()
+  return state.drawingModifiers
+}
+
 export const useContextIsDrawing = () => {
   const state = useCanvasState()
   return state.isDrawing
@@ -89,11 +133,18 @@ export const useContextCurrentPath = () => {
   return state.currentPath
 }
 
+export const useContextSelectedShapeIds = () => {
+  const state = useCanvasState()
+  return state.selectedShapeIds
+}
+
 export const useContextHistory = () => {
   const state = useCanvasState()
   return {
     history: state.history,
     historyIndex: state.historyIndex,
+    historyMode: state.historyMode,
+    historyLimit: state.historyLimit,
     canUndo: canUndo(state.historyIndex),
     canRedo: canRedo(state.historyIndex, state.history.length)
   }
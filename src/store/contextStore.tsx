@@ -15,14 +15,53 @@
  */
 
 import React, { useReducer, useMemo } from 'react'
-import type { CanvasState, CanvasActions, Point, DrawingTool } from './types'
-import { initialCanvasState } from './types'
+import type {
+  CanvasState,
+  CanvasActions,
+  NewShapeData,
+  Point,
+  DrawingTool,
+  EraserMode,
+  LineDash,
+  Arrowheads,
+  GridSettings,
+  DrawingModifiers,
+  StrokeProcessingSettings,
+  ShapeTransform,
+  HistoryMode,
+  HistoryLimit
+} from './types'
+import { initialCanvasState, DEFAULT_VIEWPORT } from './types'
 import { 
   createShape,
+  applyCurrentPath,
+  toggleSelection,
+  pruneSelection,
+  updateShapes,
+  removeShapes,
+  translateShape,
+  reorderShapes,
+  applyShapeFill,
+  applyTextEdit,
+  isMultiClickTool,
+  beginPathAt
+} from './utils'
+import {
   addToHistory,
   canUndo,
-  canRedo
-} from './utils'
+  canRedo,
+  undoShapes,
+  redoShapes,
+  isValidHistoryIndex,
+  shapesAtHistoryIndex,
+  labelHistoryEntry,
+  removeHistoryBranches,
+  applyHistoryBranchSwitch,
+  trimHistory
+} from './history'
+import { panViewport, zoomViewportAt, fitViewportToShapes } from './viewport'
+import { applyShapeAssist } from './shapeRecognition'
+import { applyShapeTransform, isIdentityTransform } from './transform'
 
 // ============================================================================
 // Action Types Definition
@@ -33,16 +72,50 @@ import {
  * Following Redux-style action pattern for consistency
  */
 type CanvasActionType =
-  | { type: 'ADD_SHAPE'; payload: { points: Point[]; color: string; type: DrawingTool } }
+  | { type: 'ADD_SHAPE'; payload: NewShapeData }
+  | { type: 'SELECT_SHAPE'; payload: { id: string; additive: boolean } }
+  | { type: 'DESELECT_ALL' }
+  | { type: 'DELETE_SELECTED' }
+  | { type: 'MOVE_SELECTED'; payload: { dx: number; dy: number } }
+  | { type: 'TRANSFORM_SELECTED'; payload: ShapeTransform }
+  | { type: 'BRING_TO_FRONT' }
+  | { type: 'SEND_TO_BACK' }
+  | { type: 'BRING_FORWARD' }
+  | { type: 'SEND_BACKWARD' }
+  | { type: 'RECOLOR_SELECTED'; payload: string }
+  | { type: 'SET_SHAPE_FILL'; payload: { id: string; fillColor: string } }
+  | { type: 'UPDATE_TEXT'; payload: { id: string; text: string } }
   | { type: 'CHANGE_COLOR'; payload: string }
   | { type: 'CHANGE_TOOL'; payload: DrawingTool }
+  | { type: 'CHANGE_ERASER_MODE'; payload: EraserMode }
+  | { type: 'CHANGE_STROKE_WIDTH'; payload: number }
+  | { type: 'CHANGE_OPACITY'; payload: number }
+  | { type: 'CHANGE_DASH'; payload: LineDash }
+  | { type: 'CHANGE_FILL_COLOR'; payload: string }
+  | { type: 'CHANGE_ARROWHEADS'; payload: Arrowheads }
+  | { type: 'CHANGE_FONT_SIZE'; payload: number }
+  | { type: 'CHANGE_FONT_FAMILY'; payload: string }
+  | { type: 'CHANGE_GRID'; payload: Partial<GridSettings> }
+  | { type: 'CHANGE_STROKE_PROCESSING'; payload: Partial<StrokeProcessingSettings> }
+  | { type: 'PAN'; payload: { dx: number; dy: number } }
+  | { type: 'ZOOM_AT'; payload: { point: Point; factor: number } }
+  | { type: 'ZOOM_TO_FIT'; payload: { width: number; height: number } }
+  | { type: 'RESET_VIEW' }
   | { type: 'START_DRAWING'; payload: Point }
   | { type: 'CONTINUE_DRAWING'; payload: Point }
   | { type: 'FINISH_DRAWING' }
+  | { type: 'CLOSE_POLYGON' }
+  | { type: 'SET_DRAWING_MODIFIERS'; payload: DrawingModifiers }
   | { type: 'UNDO' }
   | { type: 'REDO' }
+  | { type: 'GO_TO_HISTORY'; payload: number }
+  | { type: 'SET_HISTORY_LABEL'; payload: { index: number; label: string } }
+  | { type: 'SET_HISTORY_MODE'; payload: HistoryMode }
+  | { type: 'SWITCH_HISTORY_BRANCH'; payload: string }
+  | { type: 'SET_HISTORY_LIMIT'; payload: HistoryLimit }
   | { type: 'CLEAR' }
   | { type: 'RESET' }
+  | { type: 'HYDRATE'; payload: CanvasState }
 
 // ============================================================================
 // Reducer Implementation
@@ -60,11 +133,8 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
     
     case 'ADD_SHAPE': {
       // Create the new shape with unique ID and timestamp
-      const newShape = createShape(
-        action.payload.points,
-        action.payload.color,
-        action.payload.type
-      )
+      const { points, color, type, ...options } = action.payload
+      const newShape = createShape(points, color, type, options)
       
       // Add shape to the canvas
       const newShapes = [...state.shapes, newShape]
@@ -73,12 +143,275 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
       const { history, historyIndex } = addToHistory(
         state.history,
         state.historyIndex,
-        newShapes
+        state.shapes,
+        newShapes,
+        'add',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    // ========================================================================
+    // Selection Actions
+    // ========================================================================
+    
+    case 'SELECT_SHAPE': {
+      const { id, additive } = action.payload
+      if (!state.shapes.some(shape => shape.id === id)) return state
+      
+      return {
+        ...state,
+        selectedShapeIds: toggleSelection(state.selectedShapeIds, id, additive)
+      }
+    }
+
+    case 'DESELECT_ALL': {
+      if (state.selectedShapeIds.length === 0) return state
+      
+      return {
+        ...state,
+        selectedShapeIds: []
+      }
+    }
+
+    case 'DELETE_SELECTED': {
+      if (state.selectedShapeIds.length === 0) return state
+      
+      const newShapes = removeShapes(state.shapes, state.selectedShapeIds)
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'delete',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        selectedShapeIds: [],
+        history,
+        historyIndex
+      }
+    }
+
+    case 'MOVE_SELECTED': {
+      const { dx, dy } = action.payload
+      if (state.selectedShapeIds.length === 0 || (dx === 0 && dy === 0)) return state
+      
+      const newShapes = updateShapes(
+        state.shapes,
+        state.selectedShapeIds,
+        shape => translateShape(shape, dx, dy)
+      )
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'move',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'TRANSFORM_SELECTED': {
+      if (state.selectedShapeIds.length === 0 || isIdentityTransform(action.payload)) return state
+      
+      const newShapes = updateShapes(
+        state.shapes,
+        state.selectedShapeIds,
+        shape => applyShapeTransform(shape, action.payload)
+      )
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        action.payload.type,
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'BRING_TO_FRONT': {
+      const newShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'front')
+      if (!newShapes) return state
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'bringToFront',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'SEND_TO_BACK': {
+      const newShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'back')
+      if (!newShapes) return state
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'sendToBack',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'BRING_FORWARD': {
+      const newShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'forward')
+      if (!newShapes) return state
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'bringForward',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'SEND_BACKWARD': {
+      const newShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'backward')
+      if (!newShapes) return state
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'sendBackward',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'RECOLOR_SELECTED': {
+      if (state.selectedShapeIds.length === 0) return state
+      
+      const color = action.payload
+      const newShapes = updateShapes(
+        state.shapes,
+        state.selectedShapeIds,
+        shape => ({ ...shape, color })
+      )
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'recolor',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'SET_SHAPE_FILL': {
+      const newShapes = applyShapeFill(state.shapes, action.payload.id, action.payload.fillColor)
+      if (!newShapes) return state
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'fill',
+        state.historyMode,
+        state.historyLimit
+      )
+      
+      return {
+        ...state,
+        shapes: newShapes,
+        history,
+        historyIndex
+      }
+    }
+
+    case 'UPDATE_TEXT': {
+      const newShapes = applyTextEdit(state.shapes, action.payload.id, action.payload.text)
+      if (!newShapes) return state
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        'editText',
+        state.historyMode,
+        state.historyLimit
       )
       
       return {
         ...state,
         shapes: newShapes,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, newShapes),
         history,
         historyIndex
       }
@@ -98,7 +431,112 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
     case 'CHANGE_TOOL': {
       return {
         ...state,
-        currentTool: action.payload
+        currentTool: action.payload,
+        // Drop any unfinished shape (e.g. an open polygon) from the previous tool
+        isDrawing: false,
+        currentPath: []
+      }
+    }
+
+    case 'CHANGE_ERASER_MODE': {
+      return {
+        ...state,
+        eraserMode: action.payload
+      }
+    }
+
+    case 'CHANGE_STROKE_WIDTH': {
+      return {
+        ...state,
+        currentStrokeWidth: action.payload
+      }
+    }
+
+    case 'CHANGE_OPACITY': {
+      return {
+        ...state,
+        currentOpacity: action.payload
+      }
+    }
+
+    case 'CHANGE_DASH': {
+      return {
+        ...state,
+        currentDash: action.payload
+      }
+    }
+
+    case 'CHANGE_FILL_COLOR': {
+      return {
+        ...state,
+        currentFillColor: action.payload
+      }
+    }
+
+    case 'CHANGE_ARROWHEADS': {
+      return {
+        ...state,
+        currentArrowheads: action.payload
+      }
+    }
+
+    case 'CHANGE_FONT_SIZE': {
+      return {
+        ...state,
+        currentFontSize: action.payload
+      }
+    }
+
+    case 'CHANGE_FONT_FAMILY': {
+      return {
+        ...state,
+        currentFontFamily: action.payload
+      }
+    }
+
+    case 'CHANGE_GRID': {
+      return {
+        ...state,
+        grid: { ...state.grid, ...action.payload }
+      }
+    }
+
+    case 'CHANGE_STROKE_PROCESSING': {
+      return {
+        ...state,
+        strokeProcessing: { ...state.strokeProcessing, ...action.payload }
+      }
+    }
+
+    // ========================================================================
+    // Viewport Actions
+    // ========================================================================
+
+    case 'PAN': {
+      return {
+        ...state,
+        viewport: panViewport(state.viewport, action.payload.dx, action.payload.dy)
+      }
+    }
+
+    case 'ZOOM_AT': {
+      return {
+        ...state,
+        viewport: zoomViewportAt(state.viewport, action.payload.point, action.payload.factor)
+      }
+    }
+
+    case 'ZOOM_TO_FIT': {
+      return {
+        ...state,
+        viewport: fitViewportToShapes(state.shapes, action.payload.width, action.payload.height)
+      }
+    }
+
+    case 'RESET_VIEW': {
+      return {
+        ...state,
+        viewport: DEFAULT_VIEWPORT
       }
     }
 
@@ -110,21 +548,32 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
       return {
         ...state,
         isDrawing: true,
-        currentPath: [action.payload]
+        currentPath: beginPathAt(state, action.payload)
       }
     }
 
     case 'CONTINUE_DRAWING': {
       if (!state.isDrawing) return state
       
+      // Multi-click tools move their pending vertex with the pointer
+      const basePath = isMultiClickTool(state.currentTool)
+        ? state.currentPath.slice(0, -1)
+        : state.currentPath
+      
       return {
         ...state,
-        currentPath: [...state.currentPath, action.payload]
+        currentPath: [...basePath, action.payload]
       }
     }
 
     case 'FINISH_DRAWING': {
-      if (!state.isDrawing || state.currentPath.length === 0) {
+      // Multi-click shapes stay open until they are closed explicitly
+      if (isMultiClickTool(state.currentTool)) return state
+      
+      // Work out the shapes produced by the current path (new shape or erased shapes)
+      const newShapes = applyCurrentPath(state)
+      
+      if (!newShapes) {
         return {
           ...state,
           isDrawing: false,
@@ -132,26 +581,72 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
         }
       }
       
-      // Create shape from current path
-      const newShape = createShape(
-        state.currentPath,
-        state.currentColor,
-        state.currentTool
+      // Add to history
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        state.shapes,
+        newShapes,
+        state.currentTool === 'eraser' ? 'erase' : 'draw',
+        state.historyMode,
+        state.historyLimit
       )
       
-      // Add shape to canvas
-      const newShapes = [...state.shapes, newShape]
+      // A recognized shape replaces the stroke in its own step, so undo restores the stroke
+      const assistedShapes = applyShapeAssist(state, newShapes)
+      const assisted = assistedShapes
+        ? {
+            shapes: assistedShapes,
+            ...addToHistory(
+              history,
+              historyIndex,
+              newShapes,
+              assistedShapes,
+              'shapeAssist',
+              state.historyMode,
+              state.historyLimit
+            )
+          }
+        : { shapes: newShapes, history, historyIndex }
+      
+      return {
+        ...state,
+        shapes: assisted.shapes,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, assisted.shapes),
+        history: assisted.history,
+        historyIndex: assisted.historyIndex,
+        isDrawing: false,
+        currentPath: []
+      }
+    }
+
+    case 'CLOSE_POLYGON': {
+      if (state.currentTool !== 'polygon' || !state.isDrawing) return state
+      
+      const newShapes = applyCurrentPath(state)
+      
+      if (!newShapes) {
+        return {
+          ...state,
+          isDrawing: false,
+          currentPath: []
+        }
+      }
       
-      // Add to history
       const { history, historyIndex } = addToHistory(
         state.history,
         state.historyIndex,
-        newShapes
+        state.shapes,
+        newShapes,
+        'draw',
+        state.historyMode,
+        state.historyLimit
       )
       
       return {
         ...state,
         shapes: newShapes,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, newShapes),
         history,
         historyIndex,
         isDrawing: false,
@@ -159,6 +654,13 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
       }
     }
 
+    case 'SET_DRAWING_MODIFIERS': {
+      return {
+        ...state,
+        drawingModifiers: action.payload
+      }
+    }
+
     // ========================================================================
     // History Actions (Undo/Redo)
     // ========================================================================
@@ -166,12 +668,13 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
     case 'UNDO': {
       if (!canUndo(state.historyIndex)) return state
       
-      const newHistoryIndex = state.historyIndex - 1
+      const newShapes = undoShapes(state.shapes, state.history, state.historyIndex)
       
       return {
         ...state,
-        historyIndex: newHistoryIndex,
-        shapes: [...state.history[newHistoryIndex]],
+        historyIndex: state.historyIndex - 1,
+        shapes: newShapes,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, newShapes),
         isDrawing: false,
         currentPath: []
       }
@@ -180,17 +683,73 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
     case 'REDO': {
       if (!canRedo(state.historyIndex, state.history.length)) return state
       
-      const newHistoryIndex = state.historyIndex + 1
+      const newShapes = redoShapes(state.shapes, state.history, state.historyIndex)
+      
+      return {
+        ...state,
+        historyIndex: state.historyIndex + 1,
+        shapes: newShapes,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, newShapes),
+        isDrawing: false,
+        currentPath: []
+      }
+    }
+
+    case 'GO_TO_HISTORY': {
+      const index = action.payload
+      if (!isValidHistoryIndex(index, state.history.length) || index === state.historyIndex) return state
+      
+      const newShapes = shapesAtHistoryIndex(state.shapes, state.history, state.historyIndex, index)
+      
+      return {
+        ...state,
+        historyIndex: index,
+        shapes: newShapes,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, newShapes),
+        isDrawing: false,
+        currentPath: []
+      }
+    }
+
+    case 'SET_HISTORY_LABEL': {
+      const history = labelHistoryEntry(state.history, action.payload.index, action.payload.label)
+      if (!history) return state
+      
+      return {
+        ...state,
+        history
+      }
+    }
+
+    case 'SET_HISTORY_MODE': {
+      return {
+        ...state,
+        historyMode: action.payload,
+        history: action.payload === 'linear' ? removeHistoryBranches(state.history) : state.history
+      }
+    }
+
+    case 'SWITCH_HISTORY_BRANCH': {
+      const switched = applyHistoryBranchSwitch(state.shapes, state.history, state.historyIndex, action.payload)
+      if (!switched) return state
       
       return {
         ...state,
-        historyIndex: newHistoryIndex,
-        shapes: [...state.history[newHistoryIndex]],
+        ...switched,
+        selectedShapeIds: pruneSelection(state.selectedShapeIds, switched.shapes),
         isDrawing: false,
         currentPath: []
       }
     }
 
+    case 'SET_HISTORY_LIMIT': {
+      return {
+        ...state,
+        historyLimit: action.payload,
+        ...trimHistory(state.history, state.historyIndex, action.payload)
+      }
+    }
+
     // ========================================================================
     // Canvas Management Actions
     // ========================================================================
@@ -203,12 +762,17 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
       const { history, historyIndex } = addToHistory(
         state.history,
         state.historyIndex,
-        newShapes
+        state.shapes,
+        newShapes,
+        'clear',
+        state.historyMode,
+        state.historyLimit
       )
       
       return {
         ...state,
         shapes: newShapes,
+        selectedShapeIds: [],
         history,
         historyIndex,
         isDrawing: false,
@@ -217,7 +781,17 @@ const canvasReducer = (state: CanvasState, action: CanvasActionType): CanvasStat
     }
 
     case 'RESET': {
-      return { ...initialCanvasState }
+      // The history limit is a saved setting, so it survives a reset
+      return { ...initialCanvasState, historyLimit: state.historyLimit }
+    }
+
+    case 'HYDRATE': {
+      // Replace the whole state, but never carry an unfinished stroke over
+      return {
+        ...action.payload,
+        isDrawing: false,
+        currentPath: []
+      }
     }
 
     default:
@@ -256,6 +830,54 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({ children }) => {
       dispatch({ type: 'ADD_SHAPE', payload: shapeData })
     },
 
+    selectShape: (id, additive = false) => {
+      dispatch({ type: 'SELECT_SHAPE', payload: { id, additive } })
+    },
+
+    deselectAll: () => {
+      dispatch({ type: 'DESELECT_ALL' })
+    },
+
+    deleteSelected: () => {
+      dispatch({ type: 'DELETE_SELECTED' })
+    },
+
+    moveSelected: (dx, dy) => {
+      dispatch({ type: 'MOVE_SELECTED', payload: { dx, dy } })
+    },
+
+    transformSelected: (transform) => {
+      dispatch({ type: 'TRANSFORM_SELECTED', payload: transform })
+    },
+
+    bringToFront: () => {
+      dispatch({ type: 'BRING_TO_FRONT' })
+    },
+
+    sendToBack: () => {
+      dispatch({ type: 'SEND_TO_BACK' })
+    },
+
+    bringForward: () => {
+      dispatch({ type: 'BRING_FORWARD' })
+    },
+
+    sendBackward: () => {
+      dispatch({ type: 'SEND_BACKWARD' })
+    },
+
+    recolorSelected: (color) => {
+      dispatch({ type: 'RECOLOR_SELECTED', payload: color })
+    },
+
+    setShapeFill: (id, fillColor) => {
+      dispatch({ type: 'SET_SHAPE_FILL', payload: { id, fillColor } })
+    },
+
+    updateText: (id, text) => {
+      dispatch({ type: 'UPDATE_TEXT', payload: { id, text } })
+    },
+
     changeColor: (color) => {
       dispatch({ type: 'CHANGE_COLOR', payload: color })
     },
@@ -264,6 +886,62 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({ children }) => {
       dispatch({ type: 'CHANGE_TOOL', payload: tool })
     },
 
+    changeEraserMode: (mode) => {
+      dispatch({ type: 'CHANGE_ERASER_MODE', payload: mode })
+    },
+
+    changeStrokeWidth: (width) => {
+      dispatch({ type: 'CHANGE_STROKE_WIDTH', payload: width })
+    },
+
+    changeOpacity: (opacity) => {
+      dispatch({ type: 'CHANGE_OPACITY', payload: opacity })
+    },
+
+    changeDash: (dash) => {
+      dispatch({ type: 'CHANGE_DASH', payload: dash })
+    },
+
+    changeFillColor: (fillColor) => {
+      dispatch({ type: 'CHANGE_FILL_COLOR', payload: fillColor })
+    },
+
+    changeArrowheads: (arrowheads) => {
+      dispatch({ type: 'CHANGE_ARROWHEADS', payload: arrowheads })
+    },
+
+    changeFontSize: (fontSize) => {
+      dispatch({ type: 'CHANGE_FONT_SIZE', payload: fontSize })
+    },
+
+    changeFontFamily: (fontFamily) => {
+      dispatch({ type: 'CHANGE_FONT_FAMILY', payload: fontFamily })
+    },
+
+    changeGrid: (settings) => {
+      dispatch({ type: 'CHANGE_GRID', payload: settings })
+    },
+
+    changeStrokeProcessing: (settings) => {
+      dispatch({ type: 'CHANGE_STROKE_PROCESSING', payload: settings })
+    },
+
+    pan: (dx, dy) => {
+      dispatch({ type: 'PAN', payload: { dx, dy } })
+    },
+
+    zoomAt: (point, factor) => {
+      dispatch({ type: 'ZOOM_AT', payload: { point, factor } })
+    },
+
+    zoomToFit: (width, height) => {
+      dispatch({ type: 'ZOOM_TO_FIT', payload: { width, height } })
+    },
+
+    resetView: () => {
+      dispatch({ type: 'RESET_VIEW' })
+    },
+
     startDrawing: (startPoint) => {
       dispatch({ type: 'START_DRAWING', payload: startPoint })
     },
@@ -276,6 +954,14 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({ children }) => {
       dispatch({ type: 'FINISH_DRAWING' })
     },
 
+    closePolygon: () => {
+      dispatch({ type: 'CLOSE_POLYGON' })
+    },
+
+    setDrawingModifiers: (modifiers) => {
+      dispatch({ type: 'SET_DRAWING_MODIFIERS', payload: modifiers })
+    },
+
     undo: () => {
       dispatch({ type: 'UNDO' })
     },
@@ -284,12 +970,36 @@ export const CanvasProvider: React.FC<CanvasProviderProps> = ({ children }) => {
       dispatch({ type: 'REDO' })
     },
 
+    goToHistory: (index) => {
+      dispatch({ type: 'GO_TO_HISTORY', payload: index })
+    },
+
+    setHistoryLabel: (index, label) => {
+      dispatch({ type: 'SET_HISTORY_LABEL', payload: { index, label } })
+    },
+
+    setHistoryMode: (mode) => {
+      dispatch({ type: 'SET_HISTORY_MODE', payload: mode })
+    },
+
+    switchHistoryBranch: (branchId) => {
+      dispatch({ type: 'SWITCH_HISTORY_BRANCH', payload: branchId })
+    },
+
+    setHistoryLimit: (limit) => {
+      dispatch({ type: 'SET_HISTORY_LIMIT', payload: limit })
+    },
+
     clear: () => {
       dispatch({ type: 'CLEAR' })
     },
 
     reset: () => {
       dispatch({ type: 'RESET' })
+    },
+
+    hydrate: (canvasState) => {
+      dispatch({ type: 'HYDRATE', payload: canvasState })
     }
   }), []) // Actions are stable, no dependencies
 
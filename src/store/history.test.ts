@@ -0,0 +1,266 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { HistoryEntry, Point, Shape } from './types'
+import {
+  diffShapes,
+  applyPatches,
+  revertPatches,
+  addToHistory,
+  shapesAtHistoryIndex,
+  countHistoryBranches,
+  removeHistoryBranches,
+  applyHistoryBranchSwitch,
+  estimateHistoryBytes,
+  trimHistory
+} from './history'
+import { useZustandStore } from './zustandStore'
+
+const makeShape = (id: string, color = '#000000'): Shape => ({
+  id,
+  points: [{ x: 0, y: 0 }, { x: 10, y: 10 }],
+  color,
+  type: 'rectangle',
+  timestamp: 0
+})
+
+const [a, b, c, d, e] = ['a', 'b', 'c', 'd', 'e'].map(id => makeShape(id))
+const shapes = [a, b, c, d, e]
+
+/**
+ * Diffs two arrays and checks the patches lead from one to the other and back
+ */
+const expectRoundTrip = (previous: Shape[], next: Shape[]): void => {
+  const patches = diffShapes(previous, next)
+  const applied = applyPatches(previous, patches)
+  expect(applied).toEqual(next)
+  applied.forEach((shape, index) => expect(shape).toBe(next[index]))
+
+  const reverted = revertPatches(applied, patches)
+  expect(reverted).toEqual(previous)
+  reverted.forEach((shape, index) => expect(shape).toBe(previous[index]))
+}
+
+describe('patches', () => {
+  it('round-trips appending and removing the last shape', () => {
+    expectRoundTrip(shapes, [...shapes, makeShape('f')])
+    expectRoundTrip(shapes, shapes.slice(0, -1))
+  })
+
+  it('round-trips inserting in the middle', () => {
+    expectRoundTrip(shapes, [a, b, makeShape('f'), makeShape('g'), c, d, e])
+  })
+
+  it('round-trips removing from the middle', () => {
+    expectRoundTrip(shapes, [a, d, e])
+    expectRoundTrip(shapes, [a, c, e])
+  })
+
+  it('round-trips reordering in the middle', () => {
+    expectRoundTrip(shapes, [a, d, b, c, e])
+    expectRoundTrip(shapes, [a, c, b, d, e])
+  })
+
+  it('round-trips editing scattered shapes in place', () => {
+    const next = [a, makeShape('b', '#FF0000'), c, makeShape('d', '#FF0000'), e]
+    expectRoundTrip(shapes, next)
+  })
+
+  it('round-trips from and to an empty canvas', () => {
+    expectRoundTrip([], shapes)
+    expectRoundTrip(shapes, [])
+  })
+
+  it('stores only the edited shapes when shapes keep their places', () => {
+    const patches = diffShapes(shapes, [a, makeShape('b', '#FF0000'), c, makeShape('d', '#FF0000'), e])
+    expect(patches.map(patch => patch.index)).toEqual([1, 3])
+    expect(patches.every(patch => patch.removed.length === 1 && patch.inserted.length === 1)).toBe(true)
+  })
+
+  it('records nothing when the shapes are unchanged', () => {
+    expect(diffShapes(shapes, [...shapes])).toEqual([])
+  })
+})
+
+describe('addToHistory', () => {
+  it('reaches every recorded state with shapesAtHistoryIndex', () => {
+    const states = [
+      [],
+      [a],
+      [a, b, c],
+      [a, c],
+      [c, a, makeShape('f')],
+      [c, a, makeShape('f', '#FF0000')]
+    ]
+
+    let history: HistoryEntry[] = []
+    let historyIndex = 0
+    for (let i = 1; i < states.length; i++) {
+      ;({ history, historyIndex } = addToHistory(history, historyIndex, states[i - 1], states[i], 'draw'))
+    }
+    expect(historyIndex).toBe(states.length - 1)
+
+    const current = states[states.length - 1]
+    states.forEach((state, index) => {
+      expect(shapesAtHistoryIndex(current, history, historyIndex, index)).toEqual(state)
+    })
+  })
+
+  it('drops undone steps when a change is made in linear mode', () => {
+    let { history, historyIndex } = addToHistory([], 0, [], [a], 'draw')
+    ;({ history, historyIndex } = addToHistory(history, historyIndex, [a], [a, b], 'draw'))
+
+    // Undo the second step, then draw something else
+    ;({ history, historyIndex } = addToHistory(history, historyIndex - 1, [a], [a, c], 'draw'))
+    expect(history).toHaveLength(2)
+    expect(history[1].branches).toBeUndefined()
+    expect(shapesAtHistoryIndex([a, c], history, historyIndex, 1)).toEqual([a])
+  })
+
+  it('adds no step for a change that leaves the shapes as they were', () => {
+    const { history, historyIndex } = addToHistory([], 0, shapes, [...shapes], 'move')
+    expect(history).toEqual([])
+    expect(historyIndex).toBe(0)
+  })
+})
+
+describe('undo tree', () => {
+  /**
+   * Draws a, b and c, undoes b and c, then draws d in tree mode
+   */
+  const recordFork = (): { history: HistoryEntry[], historyIndex: number } => {
+    let history: HistoryEntry[] = []
+    let historyIndex = 0
+    const steps = [[], [a], [a, b], [a, b, c]]
+    for (let i = 1; i < steps.length; i++) {
+      ;({ history, historyIndex } = addToHistory(history, historyIndex, steps[i - 1], steps[i], 'draw', 'tree'))
+    }
+    return addToHistory(history, 1, [a], [a, d], 'draw', 'tree')
+  }
+
+  it('keeps the undone steps as a branch beside a change made after undo', () => {
+    const { history, historyIndex } = recordFork()
+    expect(historyIndex).toBe(2)
+    expect(history).toHaveLength(2)
+    expect(countHistoryBranches(history)).toBe(1)
+
+    const [branch] = history[1].branches ?? []
+    expect(branch.entries).toHaveLength(2)
+    expect(applyPatches([a], branch.entries.flatMap(entry => entry.patches))).toEqual([a, b, c])
+  })
+
+  it('rebuilds the shapes of the branch switched to, and back', () => {
+    const fork = recordFork()
+    const branchId = fork.history[1].branches![0].id
+
+    const switched = applyHistoryBranchSwitch([a, d], fork.history, fork.historyIndex, branchId)
+    expect(switched?.shapes).toEqual([a, b, c])
+    expect(switched?.historyIndex).toBe(3)
+    expect(countHistoryBranches(switched!.history)).toBe(1)
+    expect(shapesAtHistoryIndex([a, b, c], switched!.history, 3, 0)).toEqual([])
+
+    // The line that was left is now the branch
+    const backId = switched!.history[1].branches![0].id
+    const back = applyHistoryBranchSwitch(switched!.shapes, switched!.history, switched!.historyIndex, backId)
+    expect(back?.shapes).toEqual([a, d])
+    expect(back?.historyIndex).toBe(2)
+  })
+
+  it('switches to a branch from partway along the current line', () => {
+    const fork = recordFork()
+    const branchId = fork.history[1].branches![0].id
+
+    const switched = applyHistoryBranchSwitch([a], fork.history, 1, branchId)
+    expect(switched?.shapes).toEqual([a, b, c])
+  })
+
+  it('ignores unknown branches', () => {
+    const { history, historyIndex } = recordFork()
+    expect(applyHistoryBranchSwitch([a, d], history, historyIndex, 'missing')).toBeNull()
+  })
+
+  it('drops the branches and keeps the current line in linear mode', () => {
+    const { history, historyIndex } = recordFork()
+    const linearHistory = removeHistoryBranches(history)
+    expect(countHistoryBranches(linearHistory)).toBe(0)
+    expect(shapesAtHistoryIndex([a, d], linearHistory, historyIndex, 0)).toEqual([])
+  })
+
+  describe('in a store', () => {
+    const drawRectangle = (from: Point, to: Point): void => {
+      const store = useZustandStore.getState()
+      store.startDrawing(from)
+      store.continueDrawing(to)
+      store.finishDrawing()
+    }
+
+    beforeEach(() => useZustandStore.getState().reset())
+
+    it('drops the branches when switched back to linear mode', () => {
+      const store = useZustandStore.getState()
+      store.setHistoryMode('tree')
+      store.changeTool('rectangle')
+      drawRectangle({ x: 0, y: 0 }, { x: 10, y: 10 })
+      drawRectangle({ x: 20, y: 0 }, { x: 30, y: 10 })
+      useZustandStore.getState().undo()
+      drawRectangle({ x: 40, y: 0 }, { x: 50, y: 10 })
+      expect(countHistoryBranches(useZustandStore.getState().history)).toBe(1)
+
+      const shapesBefore = useZustandStore.getState().shapes
+      useZustandStore.getState().setHistoryMode('linear')
+      const state = useZustandStore.getState()
+      expect(state.historyMode).toBe('linear')
+      expect(countHistoryBranches(state.history)).toBe(0)
+      expect(state.shapes).toBe(shapesBefore)
+      expect(state.history).toHaveLength(2)
+    })
+  })
+})
+
+describe('trimHistory', () => {
+  /**
+   * Records a step per shape added, with no limit
+   */
+  const recordSteps = (steps: Shape[][]): HistoryEntry[] => {
+    let history: HistoryEntry[] = []
+    let historyIndex = 0
+    for (let i = 1; i < steps.length; i++) {
+      ;({ history, historyIndex } = addToHistory(
+        history, historyIndex, steps[i - 1], steps[i], 'draw', 'linear', { type: 'unlimited' }
+      ))
+    }
+    return history
+  }
+
+  const history = recordSteps([[], [a], [a, b], [a, b, c]])
+
+  it('drops the oldest steps past an entry limit', () => {
+    const trimmed = trimHistory(history, 3, { type: 'entries', maxEntries: 2 })
+    expect(trimmed.history).toEqual(history.slice(1))
+    expect(trimmed.historyIndex).toBe(2)
+  })
+
+  it('drops the oldest steps past a memory limit', () => {
+    const maxBytes = estimateHistoryBytes(history.slice(1)) + 1
+    const trimmed = trimHistory(history, 3, { type: 'memory', maxBytes })
+    expect(trimmed.history).toEqual(history.slice(1))
+  })
+
+  it('keeps the newest applied step even when it alone is over the limit', () => {
+    const trimmed = trimHistory(history, 3, { type: 'memory', maxBytes: 1 })
+    expect(trimmed.history).toEqual(history.slice(2))
+    expect(trimmed.historyIndex).toBe(1)
+
+    const { history: added, historyIndex } = addToHistory([], 0, [], [a], 'draw', 'linear', {
+      type: 'memory',
+      maxBytes: 1
+    })
+    expect(added).toHaveLength(1)
+    expect(historyIndex).toBe(1)
+  })
+
+  it('keeps undone steps past the limit', () => {
+    const trimmed = trimHistory(history, 1, { type: 'entries', maxEntries: 1 })
+    expect(trimmed.history).toBe(history)
+    expect(trimmed.historyIndex).toBe(1)
+  })
+})
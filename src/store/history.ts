@@ -0,0 +1,580 @@
+/**
+ * Patch-based undo history
+ *
+ * Each history entry records how the shapes array changed as a few splices
+ * instead of a copy of the whole array, so a step costs memory in proportion
+ * to what it changed rather than to the size of the drawing. Shapes are never
+ * mutated, so unchanged shapes are found by reference.
+ */
+
+import type {
+  Shape,
+  ShapesPatch,
+  HistoryEntry,
+  HistoryBranch,
+  HistoryActionType,
+  HistoryMode,
+  HistoryLimit,
+  DrawingTool
+} from './types'
+import { TOOL_CONFIGS, NO_FILL, DEFAULT_HISTORY_LIMIT } from './types'
+
+// ============================================================================
+// Patches
+// ============================================================================
+
+/**
+ * Works out the patches that turn one shapes array into another
+ * Unchanged shapes at both ends are skipped; when the shapes in between keep
+ * their places (recoloring or moving a scattered selection), each edited shape
+ * gets its own patch so untouched shapes between them are not stored
+ */
+export const diffShapes = (previous: Shape[], next: Shape[]): ShapesPatch[] => {
+  let start = 0
+  while (start < previous.length && start < next.length && previous[start] === next[start]) {
+    start++
+  }
+  
+  let previousEnd = previous.length
+  let nextEnd = next.length
+  while (previousEnd > start && nextEnd > start && previous[previousEnd - 1] === next[nextEnd - 1]) {
+    previousEnd--
+    nextEnd--
+  }
+  
+  const removed = previous.slice(start, previousEnd)
+  const inserted = next.slice(start, nextEnd)
+  if (removed.length === 0 && inserted.length === 0) return []
+  
+  const isEditedInPlace = removed.length === inserted.length &&
+    removed.every((shape, index) => shape.id === inserted[index].id)
+  if (isEditedInPlace) {
+    return removed.flatMap((shape, index) => shape === inserted[index]
+      ? []
+      : [{ index: start + index, removed: [shape], inserted: [inserted[index]] }]
+    )
+  }
+  
+  return [{ index: start, removed, inserted }]
+}
+
+/**
+ * Replaces part of a shapes array; returns a new array
+ */
+const spliceShapes = (
+  shapes: Shape[],
+  index: number,
+  removeCount: number,
+  inserted: Shape[]
+): Shape[] => {
+  // Array literals have no argument limit, unlike splice(...inserted)
+  return [...shapes.slice(0, index), ...inserted, ...shapes.slice(index + removeCount)]
+}
+
+/**
+ * Applies patches in order (redo)
+ */
+export const applyPatches = (shapes: Shape[], patches: ShapesPatch[]): Shape[] => {
+  return patches.reduce(
+    (result, patch) => spliceShapes(result, patch.index, patch.removed.length, patch.inserted),
+    shapes
+  )
+}
+
+/**
+ * Undoes patches in reverse order (undo)
+ */
+export const revertPatches = (shapes: Shape[], patches: ShapesPatch[]): Shape[] => {
+  return patches.reduceRight(
+    (result, patch) => spliceShapes(result, patch.index, patch.inserted.length, patch.removed),
+    shapes
+  )
+}
+
+// ============================================================================
+// Branches
+// ============================================================================
+
+/**
+ * Generates a unique ID for a history branch
+ */
+const generateBranchId = (): string => {
+  return `branch_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
+}
+
+/**
+ * Copy of an entry without its sibling branches
+ */
+const detachBranches = (entry: HistoryEntry): HistoryEntry => {
+  const detached = { ...entry }
+  delete detached.branches
+  return detached
+}
+
+/**
+ * Turns a run of steps into a branch; the siblings of its first step stay where they were
+ */
+const createBranch = (entries: HistoryEntry[]): HistoryBranch => {
+  return {
+    id: generateBranchId(),
+    entries: [detachBranches(entries[0]), ...entries.slice(1)]
+  }
+}
+
+/**
+ * Number of branches in a history, including branches of branches
+ */
+export const countHistoryBranches = (history: HistoryEntry[]): number => {
+  return history.reduce((total, entry) => total + (entry.branches ?? []).reduce(
+    (branchTotal, branch) => branchTotal + 1 + countHistoryBranches(branch.entries),
+    0
+  ), 0)
+}
+
+/**
+ * Drops every branch, leaving only the current line of steps (switching to linear mode)
+ */
+export const removeHistoryBranches = (history: HistoryEntry[]): HistoryEntry[] => {
+  return history.some(entry => entry.branches) ? history.map(detachBranches) : history
+}
+
+/**
+ * IDs of the branches to switch through to reach a branch, outermost first
+ * A branch inside another branch becomes reachable once its parent is switched to
+ */
+const findBranchPath = (history: HistoryEntry[], branchId: string): string[] | null => {
+  for (const entry of history) {
+    for (const branch of entry.branches ?? []) {
+      if (branch.id === branchId) return [branch.id]
+      
+      const path = findBranchPath(branch.entries, branchId)
+      if (path) return [branch.id, ...path]
+    }
+  }
+  return null
+}
+
+/**
+ * Swaps the current line of steps for one of the branches beside it
+ * The steps being left become a branch in turn, so nothing is lost
+ */
+const swapBranch = (
+  history: HistoryEntry[],
+  branchId: string
+): { history: HistoryEntry[], forkIndex: number } | null => {
+  const forkIndex = history.findIndex(entry => entry.branches?.some(branch => branch.id === branchId))
+  const forkEntry = history[forkIndex]
+  const branch = forkEntry?.branches?.find(other => other.id === branchId)
+  if (!branch) return null
+  
+  const siblings = (forkEntry.branches ?? []).filter(other => other.id !== branchId)
+  const [firstEntry, ...laterEntries] = branch.entries
+  
+  return {
+    history: [
+      ...history.slice(0, forkIndex),
+      { ...firstEntry, branches: [...siblings, createBranch(history.slice(forkIndex))] },
+      ...laterEntries
+    ],
+    forkIndex
+  }
+}
+
+/**
+ * Switches to another branch of the undo tree, ending at its last step
+ * Returns null when there is no such branch
+ */
+export const applyHistoryBranchSwitch = (
+  shapes: Shape[],
+  history: HistoryEntry[],
+  historyIndex: number,
+  branchId: string
+): { shapes: Shape[], history: HistoryEntry[], historyIndex: number } | null => {
+  const path = findBranchPath(history, branchId)
+  if (!path) return null
+  
+  return path.reduce((current, id) => {
+    const swapped = swapBranch(current.history, id)
+    if (!swapped) return current
+    
+    // Back up to where the branches part, then replay the new branch
+    const forkShapes = shapesAtHistoryIndex(current.shapes, current.history, current.historyIndex, swapped.forkIndex)
+    return {
+      shapes: shapesAtHistoryIndex(forkShapes, swapped.history, swapped.forkIndex, swapped.history.length),
+      history: swapped.history,
+      historyIndex: swapped.history.length
+    }
+  }, { shapes, history, historyIndex })
+}
+
+// ============================================================================
+// History Limits
+// ============================================================================
+
+/**
+ * Rough V8 sizes on 64-bit builds: a pointer, an array's header and backing
+ * store header, a small object with a handful of fields, and a point
+ */
+const POINTER_BYTES = 8
+const ARRAY_BYTES = 32
+const OBJECT_BYTES = 24
+const POINT_BYTES = OBJECT_BYTES + 16
+
+/**
+ * Share of a memory budget at which the history counts as full
+ */
+const MEMORY_LIMIT_FULL_RATIO = 0.9
+
+const estimateShapeBytes = (shape: Shape): number => {
+  return OBJECT_BYTES + ARRAY_BYTES + shape.points.length * (POINTER_BYTES + POINT_BYTES) +
+    (shape.text?.length ?? 0) * 2
+}
+
+/**
+ * Estimates the memory held by one history step, including its branches
+ * Shapes are counted in full even while they are still on the canvas, since
+ * once they are erased or changed the history is what keeps them alive
+ */
+export const estimateHistoryEntryBytes = (entry: HistoryEntry): number => {
+  const patchBytes = entry.patches.reduce(
+    (total, patch) => total + POINTER_BYTES + OBJECT_BYTES + 2 * ARRAY_BYTES +
+      [...patch.removed, ...patch.inserted].reduce(
+        (shapeTotal, shape) => shapeTotal + POINTER_BYTES + estimateShapeBytes(shape),
+        0
+      ),
+    0
+  )
+  const branchBytes = (entry.branches ?? []).reduce(
+    (total, branch) => total + POINTER_BYTES + OBJECT_BYTES + estimateHistoryBytes(branch.entries),
+    0
+  )
+  
+  return OBJECT_BYTES + ARRAY_BYTES + patchBytes + branchBytes
+}
+
+/**
+ * Estimates the memory held by a list of history steps
+ */
+export const estimateHistoryBytes = (history: HistoryEntry[]): number => {
+  return history.reduce(
+    (total, entry) => total + POINTER_BYTES + estimateHistoryEntryBytes(entry),
+    ARRAY_BYTES
+  )
+}
+
+/**
+ * How many of the oldest steps have to go to bring the history within a limit
+ */
+const countExcessEntries = (history: HistoryEntry[], limit: HistoryLimit): number => {
+  switch (limit.type) {
+    case 'entries':
+      return Math.max(0, history.length - limit.maxEntries)
+    case 'memory': {
+      let bytes = estimateHistoryBytes(history)
+      let count = 0
+      while (count < history.length && bytes > limit.maxBytes) {
+        bytes -= POINTER_BYTES + estimateHistoryEntryBytes(history[count])
+        count++
+      }
+      return count
+    }
+    case 'unlimited':
+      return 0
+  }
+}
+
+/**
+ * Discards the oldest steps that do not fit within a limit
+ * Only applied steps are discarded - the current shapes become the starting
+ * canvas - so undone steps past the limit stay until they are redone. The
+ * newest applied step is always kept, even if it alone is over the limit,
+ * so the latest change can still be undone
+ */
+export const trimHistory = (
+  history: HistoryEntry[],
+  historyIndex: number,
+  limit: HistoryLimit
+): { history: HistoryEntry[], historyIndex: number } => {
+  const count = Math.min(countExcessEntries(history, limit), Math.max(0, historyIndex - 1))
+  if (count === 0) return { history, historyIndex }
+  
+  return {
+    history: history.slice(count),
+    historyIndex: historyIndex - count
+  }
+}
+
+/**
+ * Checks whether the history has reached its limit, so each new step
+ * discards the oldest one
+ */
+export const isHistoryAtLimit = (history: HistoryEntry[], limit: HistoryLimit): boolean => {
+  switch (limit.type) {
+    case 'entries':
+      return history.length >= limit.maxEntries
+    case 'memory':
+      return estimateHistoryBytes(history) >= limit.maxBytes * MEMORY_LIMIT_FULL_RATIO
+    case 'unlimited':
+      return false
+  }
+}
+
+/**
+ * Describes a history limit for settings and warnings
+ */
+export const describeHistoryLimit = (limit: HistoryLimit): string => {
+  switch (limit.type) {
+    case 'entries':
+      return `${limit.maxEntries} steps`
+    case 'memory':
+      return limit.maxBytes >= 1024 * 1024
+        ? `${limit.maxBytes / (1024 * 1024)} MB`
+        : `${Math.round(limit.maxBytes / 1024)} KB`
+    case 'unlimited':
+      return 'Unlimited'
+  }
+}
+
+// ============================================================================
+// History Management
+// ============================================================================
+
+/**
+ * Records the change from one shapes array to another as a history step
+ * Steps after the current position (undone steps) are dropped, or in tree mode
+ * kept as a branch beside the new step; a change that leaves the shapes as they
+ * were adds no step. Past the history limit the oldest steps are dropped, which
+ * just makes the current canvas their starting point
+ */
+export const addToHistory = (
+  currentHistory: HistoryEntry[],
+  currentIndex: number,
+  previousShapes: Shape[],
+  nextShapes: Shape[],
+  action: HistoryActionType,
+  mode: HistoryMode = 'linear',
+  limit: HistoryLimit = DEFAULT_HISTORY_LIMIT
+): { history: HistoryEntry[], historyIndex: number } => {
+  const patches = diffShapes(previousShapes, nextShapes)
+  if (patches.length === 0) {
+    return { history: currentHistory, historyIndex: currentIndex }
+  }
+  
+  // Remove any history after current index (for when we're not at the end)
+  const truncatedHistory = currentHistory.slice(0, currentIndex)
+  const undoneEntries = currentHistory.slice(currentIndex)
+  
+  const entry: HistoryEntry = { patches, action, timestamp: Date.now() }
+  if (mode === 'tree' && undoneEntries.length > 0) {
+    entry.branches = [...(undoneEntries[0].branches ?? []), createBranch(undoneEntries)]
+  }
+  
+  // Add the new step
+  const newHistory = [...truncatedHistory, entry]
+  
+  return trimHistory(newHistory, newHistory.length, limit)
+}
+
+/**
+ * Checks if undo is possible
+ * historyIndex counts the steps applied to the shapes, so 0 is the starting canvas
+ */
+export const canUndo = (historyIndex: number): boolean => {
+  return historyIndex > 0
+}
+
+/**
+ * Checks if redo is possible
+ */
+export const canRedo = (historyIndex: number, historyLength: number): boolean => {
+  return historyIndex < historyLength
+}
+
+/**
+ * Shapes after undoing the last applied step
+ */
+export const undoShapes = (shapes: Shape[], history: HistoryEntry[], historyIndex: number): Shape[] => {
+  return revertPatches(shapes, history[historyIndex - 1].patches)
+}
+
+/**
+ * Shapes after redoing the next undone step
+ */
+export const redoShapes = (shapes: Shape[], history: HistoryEntry[], historyIndex: number): Shape[] => {
+  return applyPatches(shapes, history[historyIndex].patches)
+}
+
+/**
+ * Checks that an index is a history position (0 is the starting canvas)
+ */
+export const isValidHistoryIndex = (index: number, historyLength: number): boolean => {
+  return Number.isInteger(index) && index >= 0 && index <= historyLength
+}
+
+/**
+ * Shapes at another history position, undoing or redoing every step in between
+ */
+export const shapesAtHistoryIndex = (
+  shapes: Shape[],
+  history: HistoryEntry[],
+  historyIndex: number,
+  targetIndex: number
+): Shape[] => {
+  let result = shapes
+  for (let i = historyIndex; i > targetIndex; i--) result = undoShapes(result, history, i)
+  for (let i = historyIndex; i < targetIndex; i++) result = redoShapes(result, history, i)
+  return result
+}
+
+/**
+ * Gives a history step a label of the user's choosing; an empty label brings back the generated one
+ * Returns null when there is no such step or the label is unchanged
+ */
+export const labelHistoryEntry = (
+  history: HistoryEntry[],
+  index: number,
+  label: string
+): HistoryEntry[] | null => {
+  const entry = history[index]
+  const trimmedLabel = label.trim()
+  if (!entry || (entry.label ?? '') === trimmedLabel) return null
+  
+  return history.map((other, otherIndex) => otherIndex === index
+    ? { ...entry, label: trimmedLabel || undefined }
+    : other
+  )
+}
+
+// ============================================================================
+// Describing History
+// ============================================================================
+
+/**
+ * Number of shapes at every history position, from the current shapes
+ */
+export const getHistoryShapeCounts = (
+  history: HistoryEntry[],
+  historyIndex: number,
+  shapeCount: number
+): number[] => {
+  const changes = history.map(entry => entry.patches.reduce(
+    (total, patch) => total + patch.inserted.length - patch.removed.length,
+    0
+  ))
+  
+  const counts = new Array<number>(history.length + 1)
+  counts[historyIndex] = shapeCount
+  for (let i = historyIndex; i > 0; i--) counts[i - 1] = counts[i] - changes[i - 1]
+  for (let i = historyIndex; i < history.length; i++) counts[i + 1] = counts[i] + changes[i]
+  return counts
+}
+
+/**
+ * Names for the toolbar palette colors, used in history labels
+ */
+const COLOR_NAMES: Record<string, string> = {
+  '#000000': 'black',
+  '#FF0000': 'red',
+  '#00FF00': 'green',
+  '#0000FF': 'blue',
+  '#FFFF00': 'yellow',
+  '#FF00FF': 'magenta',
+  '#00FFFF': 'cyan',
+  '#FFA500': 'orange',
+  '#800080': 'purple',
+  '#008000': 'dark green',
+  '#FFC0CB': 'pink',
+  '#A52A2A': 'brown',
+  '#808080': 'gray',
+  '#FFFFFF': 'white'
+}
+
+/**
+ * Nouns for shapes whose tool name does not read well on its own
+ */
+const SHAPE_NOUNS: Partial<Record<DrawingTool, string>> = {
+  pen: 'pen stroke',
+  brush: 'brush stroke',
+  marker: 'marker stroke'
+}
+
+const Z_ORDER_LABELS: Partial<Record<HistoryActionType, string>> = {
+  bringToFront: 'Brought to front',
+  sendToBack: 'Sent to back',
+  bringForward: 'Brought forward',
+  sendBackward: 'Sent backward'
+}
+
+/**
+ * Name of a color for labels - palette colors by name, others as hex
+ */
+export const getColorName = (color: string): string => {
+  return COLOR_NAMES[color.toUpperCase()] ?? color
+}
+
+/**
+ * Names shapes for labels: "red circle" for one shape, "3 shapes" for several
+ */
+const describeShapes = (shapes: Shape[]): string => {
+  if (shapes.length !== 1) return `${shapes.length} shapes`
+  
+  const [shape] = shapes
+  const noun = SHAPE_NOUNS[shape.type] ?? TOOL_CONFIGS[shape.type].name.toLowerCase()
+  return `${getColorName(shape.color)} ${noun}`
+}
+
+/**
+ * Describes what a history step did, for history lists
+ * A label given by the user wins; otherwise one is built from the step's action
+ * and the shapes its patches added, removed or changed
+ */
+export const describeHistoryEntry = (entry: HistoryEntry): string => {
+  if (entry.label) return entry.label
+  
+  const removedShapes = entry.patches.flatMap(patch => patch.removed)
+  const insertedShapes = entry.patches.flatMap(patch => patch.inserted)
+  const removedIds = new Set(removedShapes.map(shape => shape.id))
+  const insertedIds = new Set(insertedShapes.map(shape => shape.id))
+  
+  const added = insertedShapes.filter(shape => !removedIds.has(shape.id))
+  const removed = removedShapes.filter(shape => !insertedIds.has(shape.id))
+  const changedBefore = removedShapes.filter(shape => insertedIds.has(shape.id))
+  const changedAfter = insertedShapes.filter(shape => removedIds.has(shape.id))
+  
+  switch (entry.action) {
+    case 'draw':
+      return `Drew ${describeShapes(added)}`
+    case 'add':
+      return `Added ${describeShapes(added)}`
+    case 'erase':
+      return added.length > 0
+        ? `Erased part of ${describeShapes(removed)}`
+        : `Erased ${describeShapes(removed)}`
+    case 'shapeAssist':
+      return `Turned ${describeShapes(removed)} into ${describeShapes(added)}`
+    case 'delete':
+      return `Deleted ${describeShapes(removed)}`
+    case 'move':
+      return `Moved ${describeShapes(changedBefore)}`
+    case 'resize':
+      return `Resized ${describeShapes(changedBefore)}`
+    case 'rotate':
+      return `Rotated ${describeShapes(changedBefore)}`
+    case 'recolor':
+      return `Recolored ${describeShapes(changedBefore)} ${getColorName(changedAfter[0].color)}`
+    case 'fill': {
+      const fillColor = changedAfter[0].fillColor
+      return fillColor && fillColor !== NO_FILL
+        ? `Filled ${describeShapes(changedBefore)} ${getColorName(fillColor)}`
+        : `Removed fill from ${describeShapes(changedBefore)}`
+    }
+    case 'editText':
+      return removed.length > 0 ? 'Deleted text' : 'Edited text'
+    case 'clear':
+      return 'Cleared canvas'
+    case 'merge':
+      return `Merged in ${describeShapes(added)}`
+    default:
+      return Z_ORDER_LABELS[entry.action] ?? 'Changed shapes'
+  }
+}
@@ -0,0 +1,214 @@
+import { describe, it, expect } from 'vitest'
+import type { DrawingTool, Point, Shape } from './types'
+import {
+  DEFAULT_HIT_TOLERANCE,
+  distanceToPolyline,
+  getShapeBounds,
+  hitTestShape,
+  findShapeAt,
+  findShapesAt
+} from './hitTesting'
+
+// Shapes use a 2px stroke, so a point within tolerance + 1 of the stroke hits
+const makeShape = (id: string, type: DrawingTool, points: Point[], extra: Partial<Shape> = {}): Shape => ({
+  id,
+  points,
+  color: '#000000',
+  type,
+  timestamp: 0,
+  strokeWidth: 2,
+  ...extra
+})
+
+const REACH = DEFAULT_HIT_TOLERANCE + 1
+
+describe('distanceToPolyline', () => {
+  it('measures to the nearest segment, not the nearest point', () => {
+    const points = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }]
+    expect(distanceToPolyline({ x: 50, y: 10 }, points)).toBe(10)
+    expect(distanceToPolyline({ x: 110, y: 50 }, points)).toBe(10)
+  })
+
+  it('handles empty and single point lines', () => {
+    expect(distanceToPolyline({ x: 0, y: 0 }, [])).toBe(Infinity)
+    expect(distanceToPolyline({ x: 3, y: 4 }, [{ x: 0, y: 0 }])).toBe(5)
+  })
+})
+
+describe('hitTestShape', () => {
+  describe.each(['pen', 'brush', 'marker'] as const)('%s strokes', (type) => {
+    const stroke = makeShape('stroke', type, [{ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 100, y: 50 }])
+
+    it('hits along the polyline between samples', () => {
+      expect(hitTestShape(stroke, { x: 25, y: 3 })).toBe(true)
+      expect(hitTestShape(stroke, { x: 75, y: 25 })).toBe(true)
+    })
+
+    it('misses inside the bend, away from the stroke', () => {
+      expect(hitTestShape(stroke, { x: 50, y: 40 })).toBe(false)
+    })
+  })
+
+  it('counts the rendered stroke width of wide tools', () => {
+    const points = [{ x: 0, y: 0 }, { x: 100, y: 0 }]
+    // The brush renders 3x the stroke width, so it reaches one px further out
+    expect(hitTestShape(makeShape('pen', 'pen', points), { x: 50, y: REACH + 1 })).toBe(false)
+    expect(hitTestShape(makeShape('brush', 'brush', points), { x: 50, y: REACH + 1 })).toBe(true)
+  })
+
+  it('hits lines and arrows along the segment between their ends', () => {
+    const points = [{ x: 0, y: 0 }, { x: 40, y: 40 }, { x: 100, y: 100 }]
+    for (const type of ['line', 'arrow'] as const) {
+      const shape = makeShape(type, type, points)
+      expect(hitTestShape(shape, { x: 70, y: 72 })).toBe(true)
+      expect(hitTestShape(shape, { x: 70, y: 30 })).toBe(false)
+    }
+  })
+
+  describe('rectangles', () => {
+    const rectangle = makeShape('rect', 'rectangle', [{ x: 100, y: 100 }, { x: 0, y: 0 }])
+
+    it('hits the interior by default', () => {
+      expect(hitTestShape(rectangle, { x: 50, y: 50 })).toBe(true)
+    })
+
+    it('hits only the edges without includeInterior', () => {
+      const options = { includeInterior: false }
+      expect(hitTestShape(rectangle, { x: 50, y: 50 }, options)).toBe(false)
+      expect(hitTestShape(rectangle, { x: 50, y: 3 }, options)).toBe(true)
+      expect(hitTestShape(rectangle, { x: 103, y: 50 }, options)).toBe(true)
+    })
+
+    it('misses outside the edges', () => {
+      expect(hitTestShape(rectangle, { x: 50, y: -20 })).toBe(false)
+    })
+
+    it('is never hit from a single point', () => {
+      expect(hitTestShape(makeShape('dot', 'rectangle', [{ x: 0, y: 0 }]), { x: 0, y: 0 })).toBe(false)
+    })
+  })
+
+  describe('circles', () => {
+    // Center first, a point on the edge last
+    const circle = makeShape('circle', 'circle', [{ x: 0, y: 0 }, { x: 50, y: 0 }])
+    const options = { includeInterior: false }
+
+    it('hits the band around the radius', () => {
+      expect(hitTestShape(circle, { x: 0, y: 50 + REACH - 1 }, options)).toBe(true)
+      expect(hitTestShape(circle, { x: 0, y: -(50 - REACH + 1) }, options)).toBe(true)
+    })
+
+    it('misses outside the band', () => {
+      expect(hitTestShape(circle, { x: 0, y: 50 + REACH + 1 }, options)).toBe(false)
+      expect(hitTestShape(circle, { x: 10, y: 10 }, options)).toBe(false)
+    })
+
+    it('hits the interior by default', () => {
+      expect(hitTestShape(circle, { x: 10, y: 10 })).toBe(true)
+    })
+  })
+
+  describe('ellipses', () => {
+    const ellipse = makeShape('ellipse', 'ellipse', [{ x: 0, y: 0 }, { x: 200, y: 100 }])
+
+    it('hits the outline and, by default, the interior', () => {
+      expect(hitTestShape(ellipse, { x: 100, y: 2 }, { includeInterior: false })).toBe(true)
+      expect(hitTestShape(ellipse, { x: 100, y: 50 })).toBe(true)
+      expect(hitTestShape(ellipse, { x: 100, y: 50 }, { includeInterior: false })).toBe(false)
+    })
+
+    it('misses the corners of its bounds', () => {
+      expect(hitTestShape(ellipse, { x: 5, y: 5 })).toBe(false)
+    })
+
+    it('is hit along its length when flat', () => {
+      const flat = makeShape('flat', 'ellipse', [{ x: 0, y: 0 }, { x: 100, y: 0 }])
+      expect(hitTestShape(flat, { x: 50, y: 3 })).toBe(true)
+    })
+  })
+
+  describe('polygons', () => {
+    const triangle = makeShape('triangle', 'polygon', [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 50, y: 100 }])
+
+    it('hits the closing edge back to the first vertex', () => {
+      expect(hitTestShape(triangle, { x: 25, y: 50 }, { includeInterior: false })).toBe(true)
+    })
+
+    it('hits the interior by default', () => {
+      expect(hitTestShape(triangle, { x: 50, y: 30 })).toBe(true)
+      expect(hitTestShape(triangle, { x: 50, y: 30 }, { includeInterior: false })).toBe(false)
+    })
+  })
+
+  describe('text', () => {
+    const text = makeShape('text', 'text', [{ x: 0, y: 0 }], { text: 'Hello\nworld', fontSize: 20 })
+
+    it('is solid across its estimated box', () => {
+      expect(hitTestShape(text, { x: 30, y: 30 })).toBe(true)
+      expect(hitTestShape(text, { x: 30, y: 30 }, { includeInterior: false })).toBe(true)
+    })
+
+    it('misses past the longest line', () => {
+      expect(hitTestShape(text, { x: 200, y: 10 })).toBe(false)
+    })
+  })
+
+  describe('tolerance', () => {
+    const line = makeShape('line', 'line', [{ x: 0, y: 0 }, { x: 100, y: 0 }])
+
+    it('defaults to DEFAULT_HIT_TOLERANCE plus half the stroke', () => {
+      expect(hitTestShape(line, { x: 50, y: REACH })).toBe(true)
+      expect(hitTestShape(line, { x: 50, y: REACH + 0.5 })).toBe(false)
+    })
+
+    it('can be widened or narrowed', () => {
+      expect(hitTestShape(line, { x: 50, y: 20 }, { tolerance: 20 })).toBe(true)
+      expect(hitTestShape(line, { x: 50, y: 2 }, { tolerance: 0 })).toBe(false)
+      expect(hitTestShape(line, { x: 50, y: 1 }, { tolerance: 0 })).toBe(true)
+    })
+  })
+
+  describe('rotated shapes', () => {
+    // A 100x20 bar centered on (50, 10), turned a quarter clockwise to stand upright
+    const bar = makeShape('bar', 'rectangle', [{ x: 0, y: 0 }, { x: 100, y: 20 }], { rotation: Math.PI / 2 })
+
+    it('hits where the shape is drawn after rotation', () => {
+      expect(hitTestShape(bar, { x: 50, y: 50 })).toBe(true)
+      expect(hitTestShape(bar, { x: 50, y: -30 })).toBe(true)
+    })
+
+    it('misses where the shape was before rotation', () => {
+      expect(hitTestShape(bar, { x: 90, y: 10 })).toBe(false)
+    })
+
+    it('has bounds that follow the rotation', () => {
+      const bounds = getShapeBounds(bar)
+      expect(bounds.minX).toBeCloseTo(40)
+      expect(bounds.maxX).toBeCloseTo(60)
+      expect(bounds.minY).toBeCloseTo(-40)
+      expect(bounds.maxY).toBeCloseTo(60)
+    })
+  })
+})
+
+describe('findShapeAt', () => {
+  const bottom = makeShape('bottom', 'rectangle', [{ x: 0, y: 0 }, { x: 100, y: 100 }])
+  const middle = makeShape('middle', 'circle', [{ x: 50, y: 50 }, { x: 80, y: 50 }])
+  const top = makeShape('top', 'pen', [{ x: 0, y: 50 }, { x: 100, y: 50 }])
+  const shapes = [bottom, middle, top]
+
+  it('returns the topmost hit, which is the last one painted', () => {
+    expect(findShapeAt(shapes, { x: 50, y: 50 })?.id).toBe('top')
+    expect(findShapeAt(shapes, { x: 50, y: 70 })?.id).toBe('middle')
+    expect(findShapeAt(shapes, { x: 5, y: 95 })?.id).toBe('bottom')
+  })
+
+  it('returns null when nothing is hit', () => {
+    expect(findShapeAt(shapes, { x: 300, y: 300 })).toBeNull()
+    expect(findShapeAt([], { x: 0, y: 0 })).toBeNull()
+  })
+
+  it('lists every hit topmost first in findShapesAt', () => {
+    expect(findShapesAt(shapes, { x: 50, y: 50 }).map(shape => shape.id)).toEqual(['top', 'middle', 'bottom'])
+  })
+})
@@ -0,0 +1,398 @@
+/**
+ * Hit-testing utilities for canvas shapes
+ *
+ * Answers "which shape is under this point" using the same geometry as
+ * renderShape, with a tolerance around strokes for mouse and touch input.
+ * Rotated shapes are tested in their own unrotated space.
+ */
+
+import type { Point, Shape } from './types'
+import {
+  DEFAULT_SHAPE_STYLE,
+  DEFAULT_TEXT_STYLE,
+  TEXT_LINE_HEIGHT,
+  TOOL_CONFIGS
+} from './types'
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/**
+ * Axis-aligned bounding box
+ */
+export interface Bounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+/**
+ * Options for hit-testing a point against shapes
+ */
+export interface HitTestOptions {
+  /** Extra distance (in canvas pixels) around the stroke that still counts as a hit */
+  tolerance?: number
+
+  /** Whether the inside of closed shapes (rectangle, circle, ellipse, polygon) counts as a hit */
+  includeInterior?: boolean
+}
+
+/**
+ * Default hit tolerance - forgiving enough for mouse and touch input
+ */
+export const DEFAULT_HIT_TOLERANCE = 6
+
+// ============================================================================
+// Geometry Helpers
+// ============================================================================
+
+/**
+ * Distance between two points
+ */
+export const distanceBetween = (a: Point, b: Point): number => {
+  return Math.hypot(b.x - a.x, b.y - a.y)
+}
+
+/**
+ * Shortest distance from a point to the segment a-b
+ */
+export const distanceToSegment = (point: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+
+  // Degenerate segment - both ends are the same point
+  if (lengthSquared === 0) return distanceBetween(point, a)
+
+  // Project the point onto the segment and clamp to its ends
+  const t = Math.max(0, Math.min(1,
+    ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSquared
+  ))
+
+  return distanceBetween(point, { x: a.x + t * dx, y: a.y + t * dy })
+}
+
+/**
+ * Shortest distance from a point to a polyline
+ */
+export const distanceToPolyline = (point: Point, points: Point[]): number => {
+  if (points.length === 0) return Infinity
+  if (points.length === 1) return distanceBetween(point, points[0])
+
+  let minDistance = Infinity
+  for (let i = 1; i < points.length; i++) {
+    minDistance = Math.min(minDistance, distanceToSegment(point, points[i - 1], points[i]))
+  }
+  return minDistance
+}
+
+/**
+ * Normalized rectangle from two opposite corners (as drawn by renderShape)
+ */
+const getCornerBounds = (start: Point, end: Point): Bounds => ({
+  minX: Math.min(start.x, end.x),
+  minY: Math.min(start.y, end.y),
+  maxX: Math.max(start.x, end.x),
+  maxY: Math.max(start.y, end.y)
+})
+
+/**
+ * Even-odd test for a point inside a closed polygon
+ */
+const isPointInPolygon = (point: Point, vertices: Point[]): boolean => {
+  let isInside = false
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i]
+    const b = vertices[j]
+    const crossesRay = (a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    if (crossesRay) isInside = !isInside
+  }
+  return isInside
+}
+
+/**
+ * Average glyph width relative to the font size
+ * Hit testing stays free of canvas APIs, so text extents are estimated
+ */
+const AVERAGE_GLYPH_WIDTH = 0.6
+
+/**
+ * Estimated box covered by a text shape, anchored at its top-left point
+ */
+const getTextBounds = (shape: Shape): Bounds => {
+  const anchor = shape.points[0]
+  const fontSize = shape.fontSize ?? DEFAULT_TEXT_STYLE.fontSize
+  const lines = (shape.text ?? '').split('\n')
+  const longestLine = Math.max(...lines.map(line => line.length))
+  
+  return {
+    minX: anchor.x,
+    minY: anchor.y,
+    maxX: anchor.x + longestLine * fontSize * AVERAGE_GLYPH_WIDTH,
+    maxY: anchor.y + lines.length * fontSize * TEXT_LINE_HEIGHT
+  }
+}
+
+/**
+ * Radius of a circle drawn from its first (center) and last (edge) points
+ */
+const getCircleRadius = (shape: Shape): number => {
+  return distanceBetween(shape.points[0], shape.points[shape.points.length - 1])
+}
+
+// ============================================================================
+// Bounds
+// ============================================================================
+
+/**
+ * Bounding box of a shape's geometry before its rotation is applied
+ */
+export const getUnrotatedBounds = (shape: Shape): Bounds => {
+  const { points } = shape
+
+  if (shape.type === 'text' && points.length >= 1) {
+    return getTextBounds(shape)
+  }
+
+  if (shape.type === 'circle' && points.length >= 2) {
+    const center = points[0]
+    const radius = getCircleRadius(shape)
+    return {
+      minX: center.x - radius,
+      minY: center.y - radius,
+      maxX: center.x + radius,
+      maxY: center.y + radius
+    }
+  }
+
+  // Shapes defined by their first and last points only
+  const isTwoPointShape = ['line', 'arrow', 'rectangle', 'ellipse'].includes(shape.type)
+  if (isTwoPointShape && points.length >= 2) {
+    return getCornerBounds(points[0], points[points.length - 1])
+  }
+
+  return points.reduce<Bounds>((bounds, point) => ({
+    minX: Math.min(bounds.minX, point.x),
+    minY: Math.min(bounds.minY, point.y),
+    maxX: Math.max(bounds.maxX, point.x),
+    maxY: Math.max(bounds.maxY, point.y)
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity })
+}
+
+/**
+ * Point a shape rotates around - the center of its unrotated bounds
+ */
+export const getShapeCenter = (shape: Shape): Point => {
+  const bounds = getUnrotatedBounds(shape)
+  return {
+    x: (bounds.minX + bounds.maxX) / 2,
+    y: (bounds.minY + bounds.maxY) / 2
+  }
+}
+
+/**
+ * Rotates a point clockwise around a center (canvas y points down)
+ */
+export const rotatePoint = (point: Point, center: Point, angle: number): Point => {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  const dx = point.x - center.x
+  const dy = point.y - center.y
+
+  return {
+    ...point,
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos
+  }
+}
+
+/**
+ * Bounding box of a shape's rendered geometry, including its rotation
+ */
+export const getShapeBounds = (shape: Shape): Bounds => {
+  const bounds = getUnrotatedBounds(shape)
+  if (!shape.rotation || shape.points.length === 0) return bounds
+
+  const center = getShapeCenter(shape)
+  const corners = [
+    { x: bounds.minX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.minY },
+    { x: bounds.maxX, y: bounds.maxY },
+    { x: bounds.minX, y: bounds.maxY }
+  ].map(corner => rotatePoint(corner, center, shape.rotation ?? 0))
+
+  return {
+    minX: Math.min(...corners.map(corner => corner.x)),
+    minY: Math.min(...corners.map(corner => corner.y)),
+    maxX: Math.max(...corners.map(corner => corner.x)),
+    maxY: Math.max(...corners.map(corner => corner.y))
+  }
+}
+
+/**
+ * Checks whether a point lies within bounds expanded by a margin
+ */
+export const boundsContainPoint = (point: Point, bounds: Bounds, margin = 0): boolean => {
+  return point.x >= bounds.minX - margin &&
+         point.x <= bounds.maxX + margin &&
+         point.y >= bounds.minY - margin &&
+         point.y <= bounds.maxY + margin
+}
+
+// ============================================================================
+// Hit Testing
+// ============================================================================
+
+/**
+ * How far from its geometry a point still hits a shape
+ * Half the rendered stroke counts as part of the shape
+ */
+export const getHitReach = (shape: Shape, tolerance: number = DEFAULT_HIT_TOLERANCE): number => {
+  const strokeWidth = (shape.strokeWidth ?? DEFAULT_SHAPE_STYLE.strokeWidth) *
+    (TOOL_CONFIGS[shape.type].strokeWidthScale ?? 1)
+  return tolerance + strokeWidth / 2
+}
+
+/**
+ * Checks whether a point hits a single shape
+ * Callers testing many points against one shape can pass its getShapeBounds
+ */
+export const hitTestShape = (
+  shape: Shape,
+  point: Point,
+  options: HitTestOptions = {},
+  bounds?: Bounds
+): boolean => {
+  const { tolerance = DEFAULT_HIT_TOLERANCE, includeInterior = true } = options
+  const { points } = shape
+  if (points.length === 0) return false
+
+  // Rotated shapes are tested in their own unrotated space
+  if (shape.rotation) {
+    const localPoint = rotatePoint(point, getShapeCenter(shape), -shape.rotation)
+    return hitTestShape({ ...shape, rotation: undefined }, localPoint, options)
+  }
+
+  const reach = getHitReach(shape, tolerance)
+
+  // Cheap rejection before the exact geometry test
+  if (!boundsContainPoint(point, bounds ?? getShapeBounds(shape), reach)) return false
+
+  switch (shape.type) {
+    case 'pen':
+    case 'brush':
+    case 'marker': {
+      return distanceToPolyline(point, points) <= reach
+    }
+
+    case 'line':
+    case 'arrow': {
+      if (points.length < 2) return false
+      return distanceToSegment(point, points[0], points[points.length - 1]) <= reach
+    }
+
+    case 'rectangle': {
+      // A single point rectangle is never rendered
+      if (points.length < 2) return false
+
+      const bounds = getCornerBounds(points[0], points[points.length - 1])
+      if (includeInterior && boundsContainPoint(point, bounds)) return true
+
+      const corners: Point[] = [
+        { x: bounds.minX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY },
+        { x: bounds.minX, y: bounds.maxY },
+        { x: bounds.minX, y: bounds.minY }
+      ]
+      return distanceToPolyline(point, corners) <= reach
+    }
+
+    case 'circle': {
+      if (points.length < 2) return false
+
+      const distanceFromCenter = distanceBetween(point, points[0])
+      const radius = getCircleRadius(shape)
+
+      if (includeInterior && distanceFromCenter <= radius) return true
+      return Math.abs(distanceFromCenter - radius) <= reach
+    }
+
+    case 'ellipse': {
+      if (points.length < 2) return false
+
+      const bounds = getCornerBounds(points[0], points[points.length - 1])
+      const radiusX = (bounds.maxX - bounds.minX) / 2
+      const radiusY = (bounds.maxY - bounds.minY) / 2
+
+      // A flat ellipse is rendered as a line
+      if (radiusX === 0 || radiusY === 0) {
+        return distanceToSegment(
+          point,
+          { x: bounds.minX, y: bounds.minY },
+          { x: bounds.maxX, y: bounds.maxY }
+        ) <= reach
+      }
+
+      // Distance in "unit circle" space, scaled back by the shorter radius
+      const normalizedDistance = Math.hypot(
+        (point.x - (bounds.minX + radiusX)) / radiusX,
+        (point.y - (bounds.minY + radiusY)) / radiusY
+      )
+
+      if (includeInterior && normalizedDistance <= 1) return true
+      return Math.abs(normalizedDistance - 1) * Math.min(radiusX, radiusY) <= reach
+    }
+
+    case 'text': {
+      // Text is solid to the pointer, including the gaps between glyphs
+      return boundsContainPoint(point, getTextBounds(shape), tolerance)
+    }
+
+    case 'polygon': {
+      if (points.length < 2) return false
+      if (includeInterior && isPointInPolygon(point, points)) return true
+      return distanceToPolyline(point, [...points, points[0]]) <= reach
+    }
+
+    default:
+      return false
+  }
+}
+
+/**
+ * Finds the topmost shape under a point
+ * Shapes are painted in array order, so the last hit is the one on top
+ */
+export const findShapeAt = (
+  shapes: Shape[],
+  point: Point,
+  options: HitTestOptions = {}
+): Shape | null => {
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    if (hitTestShape(shapes[i], point, options)) {
+      return shapes[i]
+    }
+  }
+  return null
+}
+
+/**
+ * Finds every shape under a point, topmost first
+ */
+export const findShapesAt = (
+  shapes: Shape[],
+  point: Point,
+  options: HitTestOptions = {}
+): Shape[] => {
+  const hits: Shape[] = []
+  for (let i = shapes.length - 1; i >= 0; i--) {
+    if (hitTestShape(shapes[i], point, options)) {
+      hits.push(shapes[i])
+    }
+  }
+  return hits
+}
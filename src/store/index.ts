@@ -8,7 +8,26 @@
 export type {
   Point,
   DrawingTool,
+  EraserMode,
+  ZOrderChange,
+  Arrowheads,
+  LineDash,
+  ShapeStyle,
   Shape,
+  NewShapeData,
+  ShapeOptions,
+  Viewport,
+  GridSettings,
+  DrawingModifiers,
+  StrokeProcessingSettings,
+  SelectionFrame,
+  ShapeTransform,
+  ShapesPatch,
+  HistoryActionType,
+  HistoryEntry,
+  HistoryBranch,
+  HistoryMode,
+  HistoryLimit,
   CanvasState,
   CanvasActions,
   CanvasStore,
@@ -19,6 +38,16 @@ export type {
 // Constants
 export {
   initialCanvasState,
+  DEFAULT_SHAPE_STYLE,
+  NO_FILL,
+  DEFAULT_ARROWHEADS,
+  DEFAULT_TEXT_STYLE,
+  TEXT_LINE_HEIGHT,
+  DEFAULT_VIEWPORT,
+  DEFAULT_GRID,
+  NO_DRAWING_MODIFIERS,
+  DEFAULT_STROKE_PROCESSING,
+  DEFAULT_HISTORY_LIMIT,
   AVAILABLE_COLORS,
   TOOL_CONFIGS
 } from './types'
@@ -27,37 +56,237 @@ export {
 export {
   generateShapeId,
   createShape,
+  FREEHAND_TOOLS,
+  isFreehandTool,
+  SNAPPING_TOOLS,
+  isSnappingTool,
+  PROCESSED_STROKE_TOOLS,
+  isProcessedStrokeTool,
+  GUIDE_TOOLS,
+  isGuideTool,
+  CLOSED_SHAPE_TOOLS,
+  isClosedShapeTool,
+  getShapeOptionsFromState,
+  getShapeStyle,
+  getLineDashPattern,
+  getTextFont,
+  MARKER_OPACITY,
+  getBrushWidths,
+  hasPressure,
+  getPressureWidths,
   renderShape,
   renderAllShapes,
+  LINE_ANGLE_STEP,
+  applyDrawingConstraints,
   renderCurrentPath,
-  addToHistory,
-  canUndo,
-  canRedo,
+  ERASER_RADIUS,
+  eraseAlongPath,
+  MULTI_CLICK_TOOLS,
+  POLYGON_CLOSE_DISTANCE,
+  isMultiClickTool,
+  beginPathAt,
+  getPolygonVertices,
+  shouldClosePolygonAt,
+  applyCurrentPath,
+  simplifyPath,
+  processStroke,
+  findFillTarget,
+  applyShapeFill,
+  findTextShapeAt,
+  applyTextEdit,
+  toggleSelection,
+  pruneSelection,
+  updateShapes,
+  removeShapes,
+  translateShape,
+  bakeRotation,
+  reorderShapes,
+  extractCanvasState,
+  mergeCanvasStates,
   isValidHexColor,
   isPointInBounds,
-  clampPointToBounds
+  clampPointToBounds,
+  snapPointToGrid,
+  snapDrawingPoint
 } from './utils'
 
+// Hit testing
+export type { Bounds, HitTestOptions } from './hitTesting'
+
+export {
+  DEFAULT_HIT_TOLERANCE,
+  distanceBetween,
+  distanceToSegment,
+  distanceToPolyline,
+  getUnrotatedBounds,
+  getShapeCenter,
+  rotatePoint,
+  getShapeBounds,
+  boundsContainPoint,
+  hitTestShape,
+  findShapeAt,
+  findShapesAt
+} from './hitTesting'
+
+// Viewport
+export {
+  MIN_ZOOM,
+  MAX_ZOOM,
+  ZOOM_TO_FIT_PADDING,
+  clampZoom,
+  screenToDocument,
+  documentToScreen,
+  applyViewportTransform,
+  panViewport,
+  zoomViewportAt,
+  getVisibleBounds,
+  getShapesBounds,
+  fitViewportToShapes
+} from './viewport'
+
+// Spatial index
+export type { IndexedShape, SpatialIndex } from './spatialIndex'
+
+export {
+  DEFAULT_CELL_SIZE,
+  buildSpatialIndex,
+  querySpatialIndex
+} from './spatialIndex'
+
+// Smart guides
+export type { AlignmentGuide, GuideSnapResult } from './smartGuides'
+
+export {
+  GUIDE_SNAP_DISTANCE,
+  GUIDE_COLOR,
+  snapBoundsToGuides,
+  snapPointToGuides,
+  renderGuides
+} from './smartGuides'
+
+// Transform handles
+export type { TransformHandle } from './transform'
+
+export {
+  HANDLE_SIZE,
+  ROTATE_HANDLE_OFFSET,
+  SELECTION_COLOR,
+  getSelectionFrame,
+  isPointInFrame,
+  getHandlePosition,
+  findHandleAt,
+  getHandleTransform,
+  transformFrame,
+  isIdentityTransform,
+  applyShapeTransform,
+  renderSelectionFrame
+} from './transform'
+
+// Shape recognition
+export type { RecognizedShapeKind, RecognizedShape } from './shapeRecognition'
+
+export {
+  MIN_RECOGNIZED_SIZE,
+  findCorners,
+  recognizeShape,
+  applyShapeAssist
+} from './shapeRecognition'
+
+// Undo history
+export {
+  diffShapes,
+  applyPatches,
+  revertPatches,
+  addToHistory,
+  canUndo,
+  canRedo,
+  undoShapes,
+  redoShapes,
+  isValidHistoryIndex,
+  shapesAtHistoryIndex,
+  labelHistoryEntry,
+  countHistoryBranches,
+  removeHistoryBranches,
+  applyHistoryBranchSwitch,
+  estimateHistoryEntryBytes,
+  estimateHistoryBytes,
+  trimHistory,
+  isHistoryAtLimit,
+  describeHistoryLimit,
+  getHistoryShapeCounts,
+  getColorName,
+  describeHistoryEntry
+} from './history'
+
 // Zustand store
 export {
   useZustandStore,
   useZustandShapes,
   useZustandCurrentColor,
   useZustandCurrentTool,
+  useZustandEraserMode,
+  useZustandCurrentStrokeWidth,
+  useZustandCurrentOpacity,
+  useZustandCurrentDash,
+  useZustandCurrentFillColor,
+  useZustandCurrentArrowheads,
+  useZustandCurrentFontSize,
+  useZustandCurrentFontFamily,
+  useZustandViewport,
+  useZustandGrid,
+  useZustandStrokeProcessing,
+  useZustandHistoryMode,
+  useZustandHistoryLimit,
+  useZustandDrawingModifiers,
   useZustandIsDrawing,
   useZustandCurrentPath,
+  useZustandSelectedShapeIds,
   useZustandCanUndo,
   useZustandCanRedo,
   useZustandAddShape,
+  useZustandSelectShape,
+  useZustandDeselectAll,
+  useZustandDeleteSelected,
+  useZustandMoveSelected,
+  useZustandTransformSelected,
+  useZustandBringToFront,
+  useZustandSendToBack,
+  useZustandBringForward,
+  useZustandSendBackward,
+  useZustandRecolorSelected,
+  useZustandSetShapeFill,
+  useZustandUpdateText,
   useZustandChangeColor,
   useZustandChangeTool,
+  useZustandChangeEraserMode,
+  useZustandChangeStrokeWidth,
+  useZustandChangeOpacity,
+  useZustandChangeDash,
+  useZustandChangeFillColor,
+  useZustandChangeArrowheads,
+  useZustandChangeFontSize,
+  useZustandChangeFontFamily,
+  useZustandChangeGrid,
+  useZustandChangeStrokeProcessing,
+  useZustandPan,
+  useZustandZoomAt,
+  useZustandZoomToFit,
+  useZustandResetView,
   useZustandStartDrawing,
   useZustandContinueDrawing,
   useZustandFinishDrawing,
+  useZustandClosePolygon,
+  useZustandSetDrawingModifiers,
   useZustandUndo,
   useZustandRedo,
+  useZustandGoToHistory,
+  useZustandSetHistoryLabel,
+  useZustandSetHistoryMode,
+  useZustandSwitchHistoryBranch,
+  useZustandSetHistoryLimit,
   useZustandClear,
   useZustandReset,
+  useZustandHydrate,
   subscribeToZustandChanges,
   getZustandSnapshot
 } from './zustandStore'
@@ -66,21 +295,70 @@ export {
 export {
   reduxStore,
   addShape,
+  selectShape,
+  deselectAll,
+  deleteSelected,
+  moveSelected,
+  transformSelected,
+  bringToFront,
+  sendToBack,
+  bringForward,
+  sendBackward,
+  recolorSelected,
+  setShapeFill,
+  updateText,
   changeColor,
   changeTool,
+  changeEraserMode,
+  changeStrokeWidth,
+  changeOpacity,
+  changeDash,
+  changeFillColor,
+  changeArrowheads,
+  changeFontSize,
+  changeFontFamily,
+  changeGrid,
+  changeStrokeProcessing,
+  pan,
+  zoomAt,
+  zoomToFit,
+  resetView,
   startDrawing,
   continueDrawing,
   finishDrawing,
+  closePolygon,
+  setDrawingModifiers,
   undo,
   redo,
+  goToHistory,
+  setHistoryLabel,
+  setHistoryMode,
+  switchHistoryBranch,
+  setHistoryLimit,
   clear,
   reset,
+  hydrate,
   selectCanvasState,
   selectShapes,
   selectCurrentColor,
   selectCurrentTool,
+  selectEraserMode,
+  selectCurrentStrokeWidth,
+  selectCurrentOpacity,
+  selectCurrentDash,
+  selectCurrentFillColor,
+  selectCurrentArrowheads,
+  selectCurrentFontSize,
+  selectCurrentFontFamily,
+  selectViewport,
+  selectGrid,
+  selectStrokeProcessing,
+  selectHistoryMode,
+  selectHistoryLimit,
+  selectDrawingModifiers,
   selectIsDrawing,
   selectCurrentPath,
+  selectSelectedShapeIds,
   selectCanUndo,
   selectCanRedo,
   getReduxSnapshot
@@ -96,8 +374,23 @@ export {
   useReduxShapes,
   useReduxCurrentColor,
   useReduxCurrentTool,
+  useReduxEraserMode,
+  useReduxCurrentStrokeWidth,
+  useReduxCurrentOpacity,
+  useReduxCurrentDash,
+  useReduxCurrentFillColor,
+  useReduxCurrentArrowheads,
+  useReduxCurrentFontSize,
+  useReduxCurrentFontFamily,
+  useReduxViewport,
+  useReduxGrid,
+  useReduxStrokeProcessing,
+  useReduxHistoryMode,
+  useReduxHistoryLimit,
+  useReduxDrawingModifiers,
   useReduxIsDrawing,
   useReduxCurrentPath,
+  useReduxSelectedShapeIds,
   useReduxCanUndo,
   useReduxCanRedo,
   useReduxCanvasState
@@ -117,8 +410,16 @@ export {
   useContextShapes,
   useContextCurrentColor,
   useContextCurrentTool,
+  useContextEraserMode,
+  useContextStrokeStyle,
+  useContextTextStyle,
+  useContextViewport,
+  useContextGrid,
+  useContextStrokeProcessing,
+  useContextDrawingModifiers,
   useContextIsDrawing,
   useContextCurrentPath,
+  useContextSelectedShapeIds,
   useContextHistory,
   useContextSnapshot
 } from './contextHooks'
\ No newline at end of file
@@ -40,8 +40,23 @@ import {
   selectShapes,
   selectCurrentColor,
   selectCurrentTool,
+  selectEraserMode,
+  selectCurrentStrokeWidth,
+  selectCurrentOpacity,
+  selectCurrentDash,
+  selectCurrentFillColor,
+  selectCurrentArrowheads,
+  selectCurrentFontSize,
+  selectCurrentFontFamily,
+  selectViewport,
+  selectGrid,
+  selectStrokeProcessing,
+  selectHistoryMode,
+  selectHistoryLimit,
+  selectDrawingModifiers,
   selectIsDrawing,
   selectCurrentPath,
+  selectSelectedShapeIds,
   selectHistory,
   selectHistoryIndex,
   selectCanUndo,
@@ -52,8 +67,23 @@ import {
 export const useReduxShapes = () => useAppSelector(selectShapes)
 export const useReduxCurrentColor = () => useAppSelector(selectCurrentColor)
 export const useReduxCurrentTool = () => useAppSelector(selectCurrentTool)
+export const useReduxEraserMode = () => useAppSelector(selectEraserMode)
+export const useReduxCurrentStrokeWidth = () => useAppSelector(selectCurrentStrokeWidth)
+export const useReduxCurrentOpacity = () => useAppSelector(selectCurrentOpacity)
+export const useReduxCurrentDash = () => useAppSelector(selectCurrentDash)
+export const useReduxCurrentFillColor = () => useAppSelector(selectCurrentFillColor)
+export const useReduxCurrentArrowheads = () => useAppSelector(selectCurrentArrowheads)
+export const useReduxCurrentFontSize = () => useAppSelector(selectCurrentFontSize)
+export const useReduxCurrentFontFamily = () => useAppSelector(selectCurrentFontFamily)
+export const useReduxViewport = () => useAppSelector(selectViewport)
+export const useReduxGrid = () => useAppSelector(selectGrid)
+export const useReduxStrokeProcessing = () => useAppSelector(selectStrokeProcessing)
+export const useReduxHistoryMode = () => useAppSelector(selectHistoryMode)
+export const useReduxHistoryLimit = () => useAppSelector(selectHistoryLimit)
+export const useReduxDrawingModifiers = () => useAppSelector(selectDrawingModifiers)
 export const useReduxIsDrawing = () => useAppSelector(selectIsDrawing)
 export const useReduxCurrentPath = () => useAppSelector(selectCurrentPath)
+export const useReduxSelectedShapeIds = () => useAppSelector(selectSelectedShapeIds)
 export const useReduxHistory = () => useAppSelector(selectHistory)
 export const useReduxHistoryIndex = () => useAppSelector(selectHistoryIndex)
 
@@ -16,14 +16,52 @@
 
 import { createSlice, configureStore } from '@reduxjs/toolkit'
 import type { PayloadAction } from '@reduxjs/toolkit'
-import type { CanvasState, Point, DrawingTool } from './types'
-import { initialCanvasState } from './types'
+import type {
+  CanvasState,
+  NewShapeData,
+  Point,
+  DrawingTool,
+  EraserMode,
+  LineDash,
+  Arrowheads,
+  GridSettings,
+  DrawingModifiers,
+  StrokeProcessingSettings,
+  ShapeTransform,
+  HistoryMode,
+  HistoryLimit
+} from './types'
+import { initialCanvasState, DEFAULT_VIEWPORT } from './types'
 import { 
   createShape,
+  applyCurrentPath,
+  toggleSelection,
+  pruneSelection,
+  updateShapes,
+  removeShapes,
+  translateShape,
+  reorderShapes,
+  applyShapeFill,
+  applyTextEdit,
+  isMultiClickTool,
+  beginPathAt
+} from './utils'
+import {
   addToHistory,
   canUndo,
-  canRedo
-} from './utils'
+  canRedo,
+  undoShapes,
+  redoShapes,
+  isValidHistoryIndex,
+  shapesAtHistoryIndex,
+  labelHistoryEntry,
+  removeHistoryBranches,
+  applyHistoryBranchSwitch,
+  trimHistory
+} from './history'
+import { panViewport, zoomViewportAt, fitViewportToShapes } from './viewport'
+import { applyShapeAssist } from './shapeRecognition'
+import { applyShapeTransform, isIdentityTransform } from './transform'
 
 // ============================================================================
 // Canvas Slice Definition
@@ -41,31 +79,267 @@ const canvasSlice = createSlice({
     // Shape Management Actions
     // ========================================================================
     
-    addShape: (state, action: PayloadAction<{
-      points: Point[]
-      color: string
-      type: DrawingTool
-    }>) => {
+    addShape: (state, action: PayloadAction<NewShapeData>) => {
       // Create the new shape with unique ID and timestamp
-      const newShape = createShape(
-        action.payload.points,
-        action.payload.color,
-        action.payload.type
-      )
+      const { points, color, type, ...options } = action.payload
+      const newShape = createShape(points, color, type, options)
       
       // Add shape to the canvas
-      state.shapes.push(newShape)
+      const previousShapes = state.shapes
+      state.shapes = [...state.shapes, newShape]
       
       // Add to history for undo/redo functionality
       const { history, historyIndex } = addToHistory(
         state.history,
         state.historyIndex,
-        state.shapes
+        previousShapes,
+        state.shapes,
+        'add',
+        state.historyMode,
+        state.historyLimit
       )
       state.history = history
       state.historyIndex = historyIndex
     },
 
+    // ========================================================================
+    // Selection Actions
+    // ========================================================================
+    
+    selectShape: {
+      reducer: (state, action: PayloadAction<{ id: string; additive: boolean }>) => {
+        const { id, additive } = action.payload
+        if (!state.shapes.some(shape => shape.id === id)) return
+        state.selectedShapeIds = toggleSelection(state.selectedShapeIds, id, additive)
+      },
+      prepare: (id: string, additive = false) => ({ payload: { id, additive } })
+    },
+
+    deselectAll: (state) => {
+      state.selectedShapeIds = []
+    },
+
+    deleteSelected: (state) => {
+      if (state.selectedShapeIds.length === 0) return
+      
+      const previousShapes = state.shapes
+      state.shapes = removeShapes(state.shapes, state.selectedShapeIds)
+      state.selectedShapeIds = []
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        'delete',
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    moveSelected: {
+      reducer: (state, action: PayloadAction<{ dx: number; dy: number }>) => {
+        const { dx, dy } = action.payload
+        if (state.selectedShapeIds.length === 0 || (dx === 0 && dy === 0)) return
+        
+        const previousShapes = state.shapes
+        state.shapes = updateShapes(
+          state.shapes,
+          state.selectedShapeIds,
+          shape => translateShape(shape, dx, dy)
+        )
+        
+        const { history, historyIndex } = addToHistory(
+          state.history,
+          state.historyIndex,
+          previousShapes,
+          state.shapes,
+          'move',
+          state.historyMode,
+          state.historyLimit
+        )
+        state.history = history
+        state.historyIndex = historyIndex
+      },
+      prepare: (dx: number, dy: number) => ({ payload: { dx, dy } })
+    },
+
+    transformSelected: (state, action: PayloadAction<ShapeTransform>) => {
+      if (state.selectedShapeIds.length === 0 || isIdentityTransform(action.payload)) return
+      
+      const previousShapes = state.shapes
+      state.shapes = updateShapes(
+        state.shapes,
+        state.selectedShapeIds,
+        shape => applyShapeTransform(shape, action.payload)
+      )
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        action.payload.type,
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    bringToFront: (state) => {
+      const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'front')
+      if (!nextShapes) return
+      
+      const previousShapes = state.shapes
+      state.shapes = nextShapes
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        'bringToFront',
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    sendToBack: (state) => {
+      const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'back')
+      if (!nextShapes) return
+      
+      const previousShapes = state.shapes
+      state.shapes = nextShapes
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        'sendToBack',
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    bringForward: (state) => {
+      const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'forward')
+      if (!nextShapes) return
+      
+      const previousShapes = state.shapes
+      state.shapes = nextShapes
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        'bringForward',
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    sendBackward: (state) => {
+      const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'backward')
+      if (!nextShapes) return
+      
+      const previousShapes = state.shapes
+      state.shapes = nextShapes
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        'sendBackward',
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    recolorSelected: (state, action: PayloadAction<string>) => {
+      if (state.selectedShapeIds.length === 0) return
+      
+      const color = action.payload
+      const previousShapes = state.shapes
+      state.shapes = updateShapes(
+        state.shapes,
+        state.selectedShapeIds,
+        shape => ({ ...shape, color })
+      )
+      
+      const { history, historyIndex } = addToHistory(
+        state.history,
+        state.historyIndex,
+        previousShapes,
+        state.shapes,
+        'recolor',
+        state.historyMode,
+        state.historyLimit
+      )
+      state.history = history
+      state.historyIndex = historyIndex
+    },
+
+    setShapeFill: {
+      reducer: (state, action: PayloadAction<{ id: string; fillColor: string }>) => {
+        const nextShapes = applyShapeFill(state.shapes, action.payload.id, action.payload.fillColor)
+        if (!nextShapes) return
+        
+        const previousShapes = state.shapes
+        state.shapes = nextShapes
+        
+        const { history, historyIndex } = addToHistory(
+          state.history,
+          state.historyIndex,
+          previousShapes,
+          state.shapes,
+          'fill',
+          state.historyMode,
+          state.historyLimit
+        )
+        state.history = history
+        state.historyIndex = historyIndex
+      },
+      prepare: (id: string, fillColor: string) => ({ payload: { id, fillColor } })
+    },
+
+    updateText: {
+      reducer: (state, action: PayloadAction<{ id: string; text: string }>) => {
+        const nextShapes = applyTextEdit(state.shapes, action.payload.id, action.payload.text)
+        if (!nextShapes) return
+        
+        const previousShapes = state.shapes
+        state.shapes = nextShapes
+        state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
+        
+        const { history, historyIndex } = addToHistory(
+          state.history,
+          state.historyIndex,
+          previousShapes,
+          state.shapes,
+          'editText',
+          state.historyMode,
+          state.historyLimit
+        )
+        state.history = history
+        state.historyIndex = historyIndex
+      },
+      prepare: (id: string, text: string) => ({ payload: { id, text } })
+    },
+
     // ========================================================================
     // Drawing Tool Actions
     // ========================================================================
@@ -76,6 +350,79 @@ const canvasSlice = createSlice({
 
     changeTool: (state, action: PayloadAction<DrawingTool>) => {
       state.currentTool = action.payload
+      
+      // Drop any unfinished shape (e.g. an open polygon) from the previous tool
+      state.isDrawing = false
+      state.currentPath = []
+    },
+
+    changeEraserMode: (state, action: PayloadAction<EraserMode>) => {
+      state.eraserMode = action.payload
+    },
+
+    changeStrokeWidth: (state, action: PayloadAction<number>) => {
+      state.currentStrokeWidth = action.payload
+    },
+
+    changeOpacity: (state, action: PayloadAction<number>) => {
+      state.currentOpacity = action.payload
+    },
+
+    changeDash: (state, action: PayloadAction<LineDash>) => {
+      state.currentDash = action.payload
+    },
+
+    changeFillColor: (state, action: PayloadAction<string>) => {
+      state.currentFillColor = action.payload
+    },
+
+    changeArrowheads: (state, action: PayloadAction<Arrowheads>) => {
+      state.currentArrowheads = action.payload
+    },
+
+    changeFontSize: (state, action: PayloadAction<number>) => {
+      state.currentFontSize = action.payload
+    },
+
+    changeFontFamily: (state, action: PayloadAction<string>) => {
+      state.currentFontFamily = action.payload
+    },
+
+    changeGrid: (state, action: PayloadAction<Partial<GridSettings>>) => {
+      Object.assign(state.grid, action.payload)
+    },
+
+    changeStrokeProcessing: (state, action: PayloadAction<Partial<StrokeProcessingSettings>>) => {
+      Object.assign(state.strokeProcessing, action.payload)
+    },
+
+    // ========================================================================
+    // Viewport Actions
+    // ========================================================================
+
+    pan: {
+      reducer: (state, action: PayloadAction<{ dx: number; dy: number }>) => {
+        state.viewport = panViewport(state.viewport, action.payload.dx, action.payload.dy)
+      },
+      prepare: (dx: number, dy: number) => ({ payload: { dx, dy } })
+    },
+
+    zoomAt: {
+      reducer: (state, action: PayloadAction<{ point: Point; factor: number }>) => {
+        state.viewport = zoomViewportAt(state.viewport, action.payload.point, action.payload.factor)
+      },
+      prepare: (point: Point, factor: number) => ({ payload: { point, factor } })
+    },
+
+    zoomToFit: {
+      reducer: (state, action: PayloadAction<{ width: number; height: number }>) => {
+        state.viewport = fitViewportToShapes(state.shapes, action.payload.width, action.payload.height)
+      },
+      prepare: (width: number, height: number) => ({ payload: { width, height } })
+    },
+
+    resetView: (state) => {
+      state.viewport = DEFAULT_VIEWPORT
     },
 
     // ========================================================================
@@ -83,45 +430,98 @@ const canvasSlice = createSlice({
     // ========================================================================
     
     startDrawing: (state, action: PayloadAction<Point>) => {
+      state.currentPath = beginPathAt(state, action.payload)
       state.isDrawing = true
-      state.currentPath = [action.payload]
     },
 
     continueDrawing: (state, action: PayloadAction<Point>) => {
-      if (state.isDrawing) {
+      if (!state.isDrawing) return
+      
+      if (isMultiClickTool(state.currentTool)) {
+        // Move the pending vertex with the pointer
+        state.currentPath[state.currentPath.length - 1] = action.payload
+      } else {
         state.currentPath.push(action.payload)
       }
     },
 
     finishDrawing: (state) => {
-      if (state.isDrawing && state.currentPath.length > 0) {
-        // Create shape from current path
-        const newShape = createShape(
-          state.currentPath,
-          state.currentColor,
-          state.currentTool
-        )
+      // Multi-click shapes stay open until they are closed explicitly
+      if (isMultiClickTool(state.currentTool)) return
+      
+      // Work out the shapes produced by the current path (new shape or erased shapes)
+      const nextShapes = applyCurrentPath(state)
+      
+      if (nextShapes) {
+        const previousShapes = state.shapes
+        state.shapes = nextShapes
+        state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
         
-        // Add shape to canvas
-        state.shapes.push(newShape)
+        // Add to history
+        const { history, historyIndex } = addToHistory(
+          state.history,
+          state.historyIndex,
+          previousShapes,
+          state.shapes,
+          state.currentTool === 'eraser' ? 'erase' : 'draw',
+          state.historyMode,
+          state.historyLimit
+        )
+        state.history = history
+        state.historyIndex = historyIndex
         
-        // Reset drawing state
-        state.isDrawing = false
-        state.currentPath = []
+        // A recognized shape replaces the stroke in its own step, so undo restores the stroke
+        const assistedShapes = applyShapeAssist(state, state.shapes)
+        if (assistedShapes) {
+          const assisted = addToHistory(
+            state.history,
+            state.historyIndex,
+            state.shapes,
+            assistedShapes,
+            'shapeAssist',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.shapes = assistedShapes
+          state.history = assisted.history
+          state.historyIndex = assisted.historyIndex
+        }
+      }
+      
+      // Reset drawing state
+      state.isDrawing = false
+      state.currentPath = []
+    },
+
+    closePolygon: (state) => {
+      if (state.currentTool !== 'polygon' || !state.isDrawing) return
+      
+      const nextShapes = applyCurrentPath(state)
+      
+      if (nextShapes) {
+        const previousShapes = state.shapes
+        state.shapes = nextShapes
+        state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
         
-        // Add to history
         const { history, historyIndex } = addToHistory(
           state.history,
           state.historyIndex,
-          state.shapes
+          previousShapes,
+          state.shapes,
+          'draw',
+          state.historyMode,
+          state.historyLimit
         )
         state.history = history
         state.historyIndex = historyIndex
-      } else {
-        // Just stop drawing if no path
-        state.isDrawing = false
-        state.currentPath = []
       }
+      
+      state.isDrawing = false
+      state.currentPath = []
+    },
+
+    setDrawingModifiers: (state, action: PayloadAction<DrawingModifiers>) => {
+      state.drawingModifiers = action.payload
     },
 
     // ========================================================================
@@ -130,9 +530,10 @@ const canvasSlice = createSlice({
     
     undo: (state) => {
       if (canUndo(state.historyIndex)) {
+        // Revert the last applied step
+        state.shapes = undoShapes(state.shapes, state.history, state.historyIndex)
         state.historyIndex -= 1
-        // Restore shapes from history
-        state.shapes = [...state.history[state.historyIndex]]
+        state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
         
         // Stop any current drawing
         state.isDrawing = false
@@ -142,9 +543,10 @@ const canvasSlice = createSlice({
 
     redo: (state) => {
       if (canRedo(state.historyIndex, state.history.length)) {
+        // Reapply the next undone step
+        state.shapes = redoShapes(state.shapes, state.history, state.historyIndex)
         state.historyIndex += 1
-        // Restore shapes from history
-        state.shapes = [...state.history[state.historyIndex]]
+        state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
         
         // Stop any current drawing
         state.isDrawing = false
@@ -152,19 +554,74 @@ const canvasSlice = createSlice({
       }
     },
 
+    goToHistory: (state, action: PayloadAction<number>) => {
+      const index = action.payload
+      if (!isValidHistoryIndex(index, state.history.length) || index === state.historyIndex) return
+      
+      state.shapes = shapesAtHistoryIndex(state.shapes, state.history, state.historyIndex, index)
+      state.historyIndex = index
+      state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
+      
+      // Stop any current drawing
+      state.isDrawing = false
+      state.currentPath = []
+    },
+
+    setHistoryLabel: {
+      reducer: (state, action: PayloadAction<{ index: number; label: string }>) => {
+        const { index, label } = action.payload
+        const history = labelHistoryEntry(state.history, index, label)
+        if (history) state.history = history
+      },
+      prepare: (index: number, label: string) => ({ payload: { index, label } })
+    },
+
+    setHistoryMode: (state, action: PayloadAction<HistoryMode>) => {
+      state.historyMode = action.payload
+      if (action.payload === 'linear') state.history = removeHistoryBranches(state.history)
+    },
+
+    switchHistoryBranch: (state, action: PayloadAction<string>) => {
+      const switched = applyHistoryBranchSwitch(state.shapes, state.history, state.historyIndex, action.payload)
+      if (!switched) return
+      
+      state.shapes = switched.shapes
+      state.history = switched.history
+      state.historyIndex = switched.historyIndex
+      state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
+      
+      // Stop any current drawing
+      state.isDrawing = false
+      state.currentPath = []
+    },
+
+    setHistoryLimit: (state, action: PayloadAction<HistoryLimit>) => {
+      const trimmed = trimHistory(state.history, state.historyIndex, action.payload)
+      state.historyLimit = action.payload
+      state.history = trimmed.history
+      state.historyIndex = trimmed.historyIndex
+    },
+
     // ========================================================================
     // Canvas Management Actions
     // ========================================================================
     
     clear: (state) => {
+      const previousShapes = state.shapes
+      
       // Clear all shapes
       state.shapes = []
+      state.selectedShapeIds = []
       
       // Add to history
       const { history, historyIndex } = addToHistory(
         state.history,
         state.historyIndex,
-        state.shapes
+        previousShapes,
+        state.shapes,
+        'clear',
+        state.historyMode,
+        state.historyLimit
       )
       state.history = history
       state.historyIndex = historyIndex
@@ -174,9 +631,18 @@ const canvasSlice = createSlice({
       state.currentPath = []
     },
 
-    reset: () => {
-      // Return to initial state
-      return { ...initialCanvasState }
+    reset: (state) => {
+      // Return to initial state, keeping the saved history limit
+      return { ...initialCanvasState, historyLimit: state.historyLimit }
+    },
+
+    hydrate: (_state, action: PayloadAction<CanvasState>) => {
+      // Replace the whole slice, but never carry an unfinished stroke over
+      return {
+        ...action.payload,
+        isDrawing: false,
+        currentPath: []
+      }
     }
   }
 })
@@ -187,15 +653,49 @@ const canvasSlice = createSlice({
 
 export const {
   addShape,
+  selectShape,
+  deselectAll,
+  deleteSelected,
+  moveSelected,
+  transformSelected,
+  bringToFront,
+  sendToBack,
+  bringForward,
+  sendBackward,
+  recolorSelected,
+  setShapeFill,
+  updateText,
   changeColor,
   changeTool,
+  changeEraserMode,
+  changeStrokeWidth,
+  changeOpacity,
+  changeDash,
+  changeFillColor,
+  changeArrowheads,
+  changeFontSize,
+  changeFontFamily,
+  changeGrid,
+  changeStrokeProcessing,
+  pan,
+  zoomAt,
+  zoomToFit,
+  resetView,
   startDrawing,
   continueDrawing,
   finishDrawing,
+  closePolygon,
+  setDrawingModifiers,
   undo,
   redo,
+  goToHistory,
+  setHistoryLabel,
+  setHistoryMode,
+  switchHistoryBranch,
+  setHistoryLimit,
   clear,
-  reset
+  reset,
+  hydrate
 } = canvasSlice.actions
 
 // ============================================================================
@@ -252,8 +752,23 @@ export const selectCanvasState = (state: RootState): CanvasState => state.canvas
 export const selectShapes = (state: RootState) => state.canvas.shapes
 export const selectCurrentColor = (state: RootState) => state.canvas.currentColor
 export const selectCurrentTool = (state: RootState) => state.canvas.currentTool
+export const selectEraserMode = (state: RootState) => state.canvas.eraserMode
+export const selectCurrentStrokeWidth = (state: RootState) => state.canvas.currentStrokeWidth
+export const selectCurrentOpacity = (state: RootState) => state.canvas.currentOpacity
+export const selectCurrentDash = (state: RootState) => state.canvas.currentDash
+export const selectCurrentFillColor = (state: RootState) => state.canvas.currentFillColor
+export const selectCurrentArrowheads = (state: RootState) => state.canvas.currentArrowheads
+export const selectCurrentFontSize = (state: RootState) => state.canvas.currentFontSize
+export const selectCurrentFontFamily = (state: RootState) => state.canvas.currentFontFamily
+export const selectViewport = (state: RootState) => state.canvas.viewport
+export const selectGrid = (state: RootState) => state.canvas.grid
+export const selectStrokeProcessing = (state: RootState) => state.canvas.strokeProcessing
+export const selectHistoryMode = (state: RootState) => state.canvas.historyMode
+export const selectHistoryLimit = (state: RootState) => state.canvas.historyLimit
+export const selectDrawingModifiers = (state: RootState) => state.canvas.drawingModifiers
 export const selectIsDrawing = (state: RootState) => state.canvas.isDrawing
 export const selectCurrentPath = (state: RootState) => state.canvas.currentPath
+export const selectSelectedShapeIds = (state: RootState) => state.canvas.selectedShapeIds
 export const selectHistory = (state: RootState) => state.canvas.history
 export const selectHistoryIndex = (state: RootState) => state.canvas.historyIndex
 
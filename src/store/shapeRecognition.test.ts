@@ -0,0 +1,242 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest'
+import { act, renderHook } from '@testing-library/react'
+import type { Point } from './types'
+import { recognizeShape, MIN_RECOGNIZED_SIZE } from './shapeRecognition'
+import { useZustandStore } from './zustandStore'
+import {
+  reduxStore,
+  changeStrokeProcessing,
+  changeTool,
+  startDrawing,
+  continueDrawing,
+  finishDrawing,
+  undo,
+  reset
+} from './reduxStore'
+import { CanvasProvider } from './contextStore'
+import { useCanvasState, useCanvasActions } from './contextHooks'
+
+// ============================================================================
+// Synthetic Strokes
+// ============================================================================
+
+// Deterministic hand tremor, up to `amount` in either direction
+const wobble = (index: number, amount: number): number => Math.sin(index * 2.3) * amount
+
+/**
+ * Samples a closed or open path through vertices, `perSide` points per side
+ */
+const tracePolyline = (vertices: Point[], perSide: number): Point[] => {
+  const points: Point[] = []
+  for (let side = 0; side < vertices.length - 1; side++) {
+    const from = vertices[side]
+    const to = vertices[side + 1]
+    for (let i = 0; i < perSide; i++) {
+      const t = i / perSide
+      points.push({
+        x: from.x + (to.x - from.x) * t + wobble(points.length, 1),
+        y: from.y + (to.y - from.y) * t + wobble(points.length + 7, 1)
+      })
+    }
+  }
+  points.push(vertices[vertices.length - 1])
+  return points
+}
+
+/**
+ * Samples an ellipse, going round `turns` of the way from the right
+ */
+const traceEllipse = (center: Point, radiusX: number, radiusY: number, turns = 1, samples = 48): Point[] => {
+  return Array.from({ length: samples + 1 }, (_, i) => {
+    const angle = (i / samples) * turns * Math.PI * 2
+    return {
+      x: center.x + Math.cos(angle) * radiusX + wobble(i, 1),
+      y: center.y + Math.sin(angle) * radiusY + wobble(i + 3, 1)
+    }
+  })
+}
+
+const line = tracePolyline([{ x: 10, y: 10 }, { x: 210, y: 110 }], 30)
+
+// Starts partway along the top side, like most hand-drawn rectangles
+const rectangle = tracePolyline([
+  { x: 60, y: 20 },
+  { x: 180, y: 20 },
+  { x: 180, y: 120 },
+  { x: 20, y: 120 },
+  { x: 20, y: 20 },
+  { x: 60, y: 20 }
+], 12)
+
+const circle = traceEllipse({ x: 100, y: 100 }, 60, 60)
+const ellipse = traceEllipse({ x: 150, y: 100 }, 120, 50)
+
+const triangle = tracePolyline([
+  { x: 60, y: 150 },
+  { x: 100, y: 20 },
+  { x: 180, y: 150 },
+  { x: 60, y: 150 }
+], 15)
+
+// Loops back on itself without matching any shape
+const squiggle = Array.from({ length: 60 }, (_, i) => ({
+  x: 100 + Math.cos(i / 5) * (30 + i * 1.5),
+  y: 100 + Math.sin(i / 3) * 40
+}))
+
+// ============================================================================
+// Recognition
+// ============================================================================
+
+describe('recognizeShape', () => {
+  it('recognizes a straight stroke as a line between its ends', () => {
+    const recognized = recognizeShape(line)
+    expect(recognized?.kind).toBe('line')
+    expect(recognized?.tool).toBe('line')
+    expect(recognized?.points).toEqual([line[0], line[line.length - 1]])
+  })
+
+  it('recognizes a rectangle as its bounding box corners', () => {
+    const recognized = recognizeShape(rectangle)
+    expect(recognized?.kind).toBe('rectangle')
+    expect(recognized?.tool).toBe('rectangle')
+    expect(recognized?.points).toEqual([
+      { x: Math.min(...rectangle.map(point => point.x)), y: Math.min(...rectangle.map(point => point.y)) },
+      { x: Math.max(...rectangle.map(point => point.x)), y: Math.max(...rectangle.map(point => point.y)) }
+    ])
+  })
+
+  it('recognizes a round stroke as a circle stored as center and edge point', () => {
+    const recognized = recognizeShape(circle)
+    expect(recognized?.kind).toBe('circle')
+    expect(recognized?.tool).toBe('circle')
+    const [center, edge] = recognized?.points ?? []
+    expect(center.x).toBeCloseTo(100, 0)
+    expect(center.y).toBeCloseTo(100, 0)
+    expect(Math.hypot(edge.x - center.x, edge.y - center.y)).toBeCloseTo(60, 0)
+  })
+
+  it('recognizes a stretched round stroke as an ellipse', () => {
+    const recognized = recognizeShape(ellipse)
+    expect(recognized?.kind).toBe('ellipse')
+    expect(recognized?.tool).toBe('ellipse')
+  })
+
+  it('recognizes three corners as a triangle polygon', () => {
+    const recognized = recognizeShape(triangle)
+    expect(recognized?.kind).toBe('triangle')
+    expect(recognized?.tool).toBe('polygon')
+    expect(recognized?.points).toHaveLength(3)
+  })
+
+  it('leaves a squiggle alone', () => {
+    expect(recognizeShape(squiggle)).toBeNull()
+  })
+
+  it('leaves strokes smaller than MIN_RECOGNIZED_SIZE alone', () => {
+    const tiny = traceEllipse({ x: 0, y: 0 }, MIN_RECOGNIZED_SIZE / 4, MIN_RECOGNIZED_SIZE / 4)
+    expect(recognizeShape(tiny)).toBeNull()
+    expect(recognizeShape(tracePolyline([{ x: 0, y: 0 }, { x: MIN_RECOGNIZED_SIZE / 2, y: 0 }], 5))).toBeNull()
+  })
+
+  it('leaves open curved strokes alone', () => {
+    expect(recognizeShape(traceEllipse({ x: 100, y: 100 }, 60, 60, 0.75))).toBeNull()
+  })
+
+  it('needs at least three points', () => {
+    expect(recognizeShape([{ x: 0, y: 0 }, { x: 100, y: 100 }])).toBeNull()
+  })
+})
+
+// ============================================================================
+// Drawing Commit
+// ============================================================================
+
+/**
+ * Draws a stroke through the CanvasActions interface shared by every store
+ */
+const drawStroke = (
+  actions: {
+    startDrawing: (point: Point) => void
+    continueDrawing: (point: Point) => void
+    finishDrawing: () => void
+  },
+  points: Point[]
+): void => {
+  actions.startDrawing(points[0])
+  points.slice(1).forEach(point => actions.continueDrawing(point))
+  actions.finishDrawing()
+}
+
+describe('shape assist in finishDrawing', () => {
+  describe('Zustand store', () => {
+    beforeEach(() => useZustandStore.getState().reset())
+
+    it('commits the clean shape with the raw stroke one undo away', () => {
+      const store = useZustandStore.getState()
+      store.changeStrokeProcessing({ shapeAssist: true })
+      store.changeTool('pen')
+      drawStroke(store, circle)
+
+      expect(useZustandStore.getState().shapes.map(shape => shape.type)).toEqual(['circle'])
+      expect(useZustandStore.getState().history).toHaveLength(2)
+
+      useZustandStore.getState().undo()
+      expect(useZustandStore.getState().shapes.map(shape => shape.type)).toEqual(['pen'])
+
+      useZustandStore.getState().undo()
+      expect(useZustandStore.getState().shapes).toEqual([])
+    })
+  })
+
+  describe('Redux store', () => {
+    beforeEach(() => {
+      reduxStore.dispatch(reset())
+    })
+
+    it('commits the clean shape with the raw stroke one undo away', () => {
+      const { dispatch } = reduxStore
+      dispatch(changeStrokeProcessing({ shapeAssist: true }))
+      dispatch(changeTool('pen'))
+      drawStroke({
+        startDrawing: point => dispatch(startDrawing(point)),
+        continueDrawing: point => dispatch(continueDrawing(point)),
+        finishDrawing: () => dispatch(finishDrawing())
+      }, circle)
+
+      expect(reduxStore.getState().canvas.shapes.map(shape => shape.type)).toEqual(['circle'])
+      expect(reduxStore.getState().canvas.history).toHaveLength(2)
+
+      dispatch(undo())
+      expect(reduxStore.getState().canvas.shapes.map(shape => shape.type)).toEqual(['pen'])
+
+      dispatch(undo())
+      expect(reduxStore.getState().canvas.shapes).toEqual([])
+    })
+  })
+
+  describe('Context store', () => {
+    it('commits the clean shape with the raw stroke one undo away', () => {
+      const { result } = renderHook(
+        () => ({ state: useCanvasState(), actions: useCanvasActions() }),
+        { wrapper: CanvasProvider }
+      )
+
+      act(() => {
+        result.current.actions.changeStrokeProcessing({ shapeAssist: true })
+        result.current.actions.changeTool('pen')
+      })
+      act(() => drawStroke(result.current.actions, circle))
+
+      expect(result.current.state.shapes.map(shape => shape.type)).toEqual(['circle'])
+      expect(result.current.state.history).toHaveLength(2)
+
+      act(() => result.current.actions.undo())
+      expect(result.current.state.shapes.map(shape => shape.type)).toEqual(['pen'])
+
+      act(() => result.current.actions.undo())
+      expect(result.current.state.shapes).toEqual([])
+    })
+  })
+})
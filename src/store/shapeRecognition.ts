@@ -0,0 +1,223 @@
+/**
+ * Shape recognition - turning rough pen strokes into clean shapes
+ *
+ * When shape assist is on, a finished pen stroke that roughly matches a line,
+ * rectangle, circle, ellipse or triangle is replaced by the clean shape.
+ * Strokes that are too small, open, or match nothing well are left alone.
+ */
+
+import type { Point, Shape, CanvasState, DrawingTool } from './types'
+import type { Bounds } from './hitTesting'
+import { distanceBetween, distanceToSegment } from './hitTesting'
+import { createShape, simplifyPath } from './utils'
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/**
+ * Kinds of shape the recognizer can find
+ */
+export type RecognizedShapeKind = 'line' | 'rectangle' | 'circle' | 'ellipse' | 'triangle'
+
+/**
+ * A clean shape matching a stroke, with points laid out the way its tool draws them
+ */
+export interface RecognizedShape {
+  kind: RecognizedShapeKind
+  tool: DrawingTool
+  points: Point[]
+}
+
+/**
+ * Strokes smaller than this (bounding box diagonal, document units) are left as drawn
+ */
+export const MIN_RECOGNIZED_SIZE = 16
+
+/**
+ * Tolerances below are fractions of the stroke's size, so recognition works at any scale
+ * - line: how far the stroke may stray from the straight line between its ends
+ * - closed: how far apart the ends of a closed shape may be
+ * - corner: how far a stroke may stray from the polygon through its corners
+ * - rectangle: how far the stroke may stray from its bounding box
+ * - ellipse: average deviation from the fitted ellipse's radius
+ */
+const LINE_TOLERANCE = 0.06
+const CLOSED_TOLERANCE = 0.2
+const CORNER_TOLERANCE = 0.08
+const RECTANGLE_TOLERANCE = 0.06
+const ELLIPSE_TOLERANCE = 0.1
+
+/**
+ * Ellipses whose radii differ by less than this ratio are recognized as circles
+ */
+const CIRCLE_ASPECT_RATIO = 1.2
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const getPointsBounds = (points: Point[]): Bounds => {
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys)
+  }
+}
+
+const distanceToBoundsEdge = (point: Point, bounds: Bounds): number => {
+  return Math.min(
+    Math.abs(point.x - bounds.minX),
+    Math.abs(point.x - bounds.maxX),
+    Math.abs(point.y - bounds.minY),
+    Math.abs(point.y - bounds.maxY)
+  )
+}
+
+/**
+ * Finds the corners of a closed stroke
+ * Simplifies the stroke, then drops vertices that lie on the line between their
+ * neighbours - the stroke's start is usually partway along a side
+ */
+export const findCorners = (points: Point[], tolerance: number): Point[] => {
+  const simplified = simplifyPath(points, tolerance)
+  const corners = simplified.slice(0, -1)
+  
+  let removed = true
+  while (removed && corners.length > 2) {
+    removed = false
+    for (let i = 0; i < corners.length; i++) {
+      const previous = corners[(i - 1 + corners.length) % corners.length]
+      const next = corners[(i + 1) % corners.length]
+      
+      if (distanceToSegment(corners[i], previous, next) <= tolerance) {
+        corners.splice(i, 1)
+        removed = true
+        break
+      }
+    }
+  }
+  
+  return corners
+}
+
+// ============================================================================
+// Recognition
+// ============================================================================
+
+/**
+ * Recognizes the clean shape a stroke was meant to be
+ * Returns null when the stroke does not clearly match any shape
+ */
+export const recognizeShape = (points: Point[]): RecognizedShape | null => {
+  if (points.length < 3) return null
+  
+  const bounds = getPointsBounds(points)
+  const size = Math.hypot(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY)
+  if (size < MIN_RECOGNIZED_SIZE) return null
+  
+  const first = points[0]
+  const last = points[points.length - 1]
+  
+  // Line - every point stays close to the straight line between the ends
+  const chord = distanceBetween(first, last)
+  if (
+    chord >= MIN_RECOGNIZED_SIZE &&
+    points.every((point) => distanceToSegment(point, first, last) <= chord * LINE_TOLERANCE)
+  ) {
+    return { kind: 'line', tool: 'line', points: [first, last] }
+  }
+  
+  // Everything else is a closed shape, so the stroke has to end near where it started
+  if (chord > size * CLOSED_TOLERANCE) return null
+  
+  const corners = findCorners(points, size * CORNER_TOLERANCE)
+  
+  // Rectangle - four corners, and every point close to the bounding box
+  if (
+    corners.length === 4 &&
+    points.every((point) => distanceToBoundsEdge(point, bounds) <= size * RECTANGLE_TOLERANCE)
+  ) {
+    return {
+      kind: 'rectangle',
+      tool: 'rectangle',
+      points: [
+        { x: bounds.minX, y: bounds.minY },
+        { x: bounds.maxX, y: bounds.maxY }
+      ]
+    }
+  }
+  
+  // Ellipse - points stay close to the ellipse inscribed in the bounding box
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  const radiusX = (bounds.maxX - bounds.minX) / 2
+  const radiusY = (bounds.maxY - bounds.minY) / 2
+  
+  if (radiusX > 0 && radiusY > 0) {
+    const deviation = points.reduce((total, point) => {
+      const radius = Math.hypot((point.x - center.x) / radiusX, (point.y - center.y) / radiusY)
+      return total + Math.abs(radius - 1)
+    }, 0) / points.length
+    
+    if (deviation <= ELLIPSE_TOLERANCE) {
+      if (Math.max(radiusX, radiusY) / Math.min(radiusX, radiusY) <= CIRCLE_ASPECT_RATIO) {
+        // Circles are stored as their center and a point on the edge
+        const radius = (radiusX + radiusY) / 2
+        return {
+          kind: 'circle',
+          tool: 'circle',
+          points: [center, { x: center.x + radius, y: center.y }]
+        }
+      }
+      
+      return {
+        kind: 'ellipse',
+        tool: 'ellipse',
+        points: [
+          { x: bounds.minX, y: bounds.minY },
+          { x: bounds.maxX, y: bounds.maxY }
+        ]
+      }
+    }
+  }
+  
+  // Triangle - three corners, stored as a polygon
+  if (corners.length === 3) {
+    return { kind: 'triangle', tool: 'polygon', points: corners }
+  }
+  
+  return null
+}
+
+// ============================================================================
+// Drawing Commit
+// ============================================================================
+
+/**
+ * Replaces the stroke just committed by applyCurrentPath with the shape it matches
+ * Returns null when shape assist is off or nothing was recognized. Stores commit
+ * the result as a second history step, so undo brings back the raw stroke.
+ */
+export const applyShapeAssist = (state: CanvasState, shapes: Shape[]): Shape[] | null => {
+  if (!state.strokeProcessing.shapeAssist || state.currentTool !== 'pen') return null
+  
+  const stroke = shapes[shapes.length - 1]
+  if (!stroke || stroke.type !== 'pen') return null
+  
+  // Recognize the stroke as sampled, before simplification
+  const recognized = recognizeShape(state.currentPath)
+  if (!recognized) return null
+  
+  // Keep only the geometry - sampled pressure and timing mean nothing on a clean shape
+  const points = recognized.points.map((point) => ({ x: point.x, y: point.y }))
+  const shape = createShape(points, stroke.color, recognized.tool, {
+    strokeWidth: stroke.strokeWidth,
+    opacity: stroke.opacity,
+    dash: stroke.dash
+  })
+  return [...shapes.slice(0, -1), shape]
+}
@@ -0,0 +1,242 @@
+/**
+ * Smart guides - snapping to the edges and centers of other shapes
+ *
+ * A box or point snaps when one of its edges or its center comes within a
+ * threshold of another shape's; the guides drawn show what it lined up with.
+ * Candidate shapes come from a spatial index query, so snapping stays fast
+ * with thousands of shapes.
+ */
+
+import type { Point } from './types'
+import type { Bounds } from './hitTesting'
+import type { IndexedShape, SpatialIndex } from './spatialIndex'
+import { querySpatialIndex } from './spatialIndex'
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/**
+ * A guide line showing what a shape lines up with
+ * x guides are vertical lines at x = position, y guides horizontal ones
+ */
+export interface AlignmentGuide {
+  axis: 'x' | 'y'
+  position: number
+  
+  /** Extent of the line along the other axis */
+  start: number
+  end: number
+}
+
+/**
+ * Offset that snaps a box onto guides, and the guides it lines up with
+ */
+export interface GuideSnapResult {
+  dx: number
+  dy: number
+  guides: AlignmentGuide[]
+}
+
+/**
+ * Distance (in screen pixels) within which shapes snap to a guide
+ */
+export const GUIDE_SNAP_DISTANCE = 6
+
+/**
+ * Color of guide lines
+ */
+export const GUIDE_COLOR = '#e8590c'
+
+// ============================================================================
+// Candidates
+// ============================================================================
+
+/**
+ * Finds the shapes a box could line up with inside the visible area
+ * A shape can only snap on x when an edge or its center comes within the
+ * threshold of the box's x range, so it overlaps a thin column band around the
+ * box; likewise for y and a row band. Only those two bands are queried
+ */
+export const findGuideCandidates = (
+  index: SpatialIndex,
+  bounds: Bounds,
+  visibleBounds: Bounds,
+  threshold: number
+): IndexedShape[] => {
+  const columnCandidates = querySpatialIndex(index, {
+    minX: bounds.minX - threshold,
+    minY: visibleBounds.minY,
+    maxX: bounds.maxX + threshold,
+    maxY: visibleBounds.maxY
+  })
+  const rowCandidates = querySpatialIndex(index, {
+    minX: visibleBounds.minX,
+    minY: bounds.minY - threshold,
+    maxX: visibleBounds.maxX,
+    maxY: bounds.maxY + threshold
+  })
+  
+  const inColumn = new Set(columnCandidates)
+  return [...columnCandidates, ...rowCandidates.filter(candidate => !inColumn.has(candidate))]
+}
+
+// ============================================================================
+// Snapping
+// ============================================================================
+
+/**
+ * Lines a box can align on along one axis: its two edges and its center
+ */
+const getAlignmentLines = (bounds: Bounds, axis: 'x' | 'y'): number[] => {
+  return axis === 'x'
+    ? [bounds.minX, (bounds.minX + bounds.maxX) / 2, bounds.maxX]
+    : [bounds.minY, (bounds.minY + bounds.maxY) / 2, bounds.maxY]
+}
+
+/**
+ * Finds the smallest offset along one axis that puts one of the box's lines
+ * on a line of a candidate, or null when none is within the threshold
+ */
+const findAxisSnap = (
+  bounds: Bounds,
+  candidates: IndexedShape[],
+  axis: 'x' | 'y',
+  threshold: number
+): number | null => {
+  let bestOffset: number | null = null
+  const movingLines = getAlignmentLines(bounds, axis)
+  
+  candidates.forEach(({ bounds: candidateBounds }) => {
+    getAlignmentLines(candidateBounds, axis).forEach((line) => {
+      movingLines.forEach((movingLine) => {
+        const offset = line - movingLine
+        if (Math.abs(offset) <= threshold && (bestOffset === null || Math.abs(offset) < Math.abs(bestOffset))) {
+          bestOffset = offset
+        }
+      })
+    })
+  })
+  
+  return bestOffset
+}
+
+/**
+ * Builds the guides along one axis for a box that has been snapped
+ * Each guide spans the box and every candidate lined up with it
+ */
+const collectAxisGuides = (
+  bounds: Bounds,
+  candidates: IndexedShape[],
+  axis: 'x' | 'y'
+): AlignmentGuide[] => {
+  const crossAxis = axis === 'x' ? 'y' : 'x'
+  const guides = new Map<number, AlignmentGuide>()
+  const movingLines = getAlignmentLines(bounds, axis)
+  const [movingStart, , movingEnd] = getAlignmentLines(bounds, crossAxis)
+  
+  candidates.forEach(({ bounds: candidateBounds }) => {
+    const [candidateStart, , candidateEnd] = getAlignmentLines(candidateBounds, crossAxis)
+    
+    getAlignmentLines(candidateBounds, axis).forEach((line) => {
+      // Snapped lines match up to floating point error
+      const position = movingLines.find(movingLine => Math.abs(movingLine - line) < 1e-6)
+      if (position === undefined) return
+      
+      const guide = guides.get(position) ?? {
+        axis,
+        position,
+        start: movingStart,
+        end: movingEnd
+      }
+      guide.start = Math.min(guide.start, candidateStart)
+      guide.end = Math.max(guide.end, candidateEnd)
+      guides.set(position, guide)
+    })
+  })
+  
+  return [...guides.values()]
+}
+
+/**
+ * Snaps a box to the edges and centers of candidate shapes
+ * Each axis snaps on its own; the threshold is in document units
+ */
+export const snapBoundsToGuides = (
+  bounds: Bounds,
+  candidates: IndexedShape[],
+  threshold: number
+): GuideSnapResult => {
+  const dx = findAxisSnap(bounds, candidates, 'x', threshold) ?? 0
+  const dy = findAxisSnap(bounds, candidates, 'y', threshold) ?? 0
+  const snappedBounds = {
+    minX: bounds.minX + dx,
+    minY: bounds.minY + dy,
+    maxX: bounds.maxX + dx,
+    maxY: bounds.maxY + dy
+  }
+  
+  return {
+    dx,
+    dy,
+    guides: [
+      ...collectAxisGuides(snappedBounds, candidates, 'x'),
+      ...collectAxisGuides(snappedBounds, candidates, 'y')
+    ]
+  }
+}
+
+/**
+ * Snaps a single point (such as a corner being dragged) to candidate shapes
+ */
+export const snapPointToGuides = (
+  point: Point,
+  candidates: IndexedShape[],
+  threshold: number
+): { point: Point; guides: AlignmentGuide[] } => {
+  const { dx, dy, guides } = snapBoundsToGuides(
+    { minX: point.x, minY: point.y, maxX: point.x, maxY: point.y },
+    candidates,
+    threshold
+  )
+  
+  return {
+    point: { ...point, x: point.x + dx, y: point.y + dy },
+    guides
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Draws guide lines as thin dashed lines
+ * Expects the context to be in document coordinates at the given zoom
+ */
+export const renderGuides = (
+  ctx: CanvasRenderingContext2D,
+  guides: AlignmentGuide[],
+  zoom: number
+): void => {
+  if (guides.length === 0) return
+  
+  ctx.save()
+  ctx.strokeStyle = GUIDE_COLOR
+  ctx.lineWidth = 1 / zoom
+  ctx.setLineDash([4 / zoom, 4 / zoom])
+  ctx.globalAlpha = 1
+  
+  ctx.beginPath()
+  guides.forEach((guide) => {
+    if (guide.axis === 'x') {
+      ctx.moveTo(guide.position, guide.start)
+      ctx.lineTo(guide.position, guide.end)
+    } else {
+      ctx.moveTo(guide.start, guide.position)
+      ctx.lineTo(guide.end, guide.position)
+    }
+  })
+  ctx.stroke()
+  ctx.restore()
+}
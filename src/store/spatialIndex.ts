@@ -0,0 +1,116 @@
+/**
+ * Spatial index over shape bounding boxes
+ *
+ * A uniform grid of buckets, so "which shapes are near here" only looks at
+ * shapes in the buckets a region overlaps instead of every shape. The index
+ * is derived from the shapes array; rebuild it whenever shapes change.
+ */
+
+import type { Shape } from './types'
+import type { Bounds } from './hitTesting'
+import { getShapeBounds } from './hitTesting'
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/**
+ * A shape together with its bounding box
+ */
+export interface IndexedShape {
+  shape: Shape
+  bounds: Bounds
+}
+
+/**
+ * Grid buckets of shapes, keyed by cell
+ */
+export interface SpatialIndex {
+  /** Size of a grid cell in document units */
+  cellSize: number
+  
+  /** Every indexed shape, in shapes order */
+  entries: IndexedShape[]
+  
+  /** Indices into entries of the shapes overlapping each cell */
+  cells: Map<string, number[]>
+}
+
+/**
+ * Default cell size in document units
+ * Large enough that most shapes fall in a handful of cells
+ */
+export const DEFAULT_CELL_SIZE = 256
+
+// ============================================================================
+// Building & Querying
+// ============================================================================
+
+const getCellKey = (column: number, row: number): string => `${column}:${row}`
+
+/**
+ * Calls back with every cell a bounding box overlaps
+ */
+const forEachCell = (
+  bounds: Bounds,
+  cellSize: number,
+  callback: (key: string) => void
+): void => {
+  const minColumn = Math.floor(bounds.minX / cellSize)
+  const maxColumn = Math.floor(bounds.maxX / cellSize)
+  const minRow = Math.floor(bounds.minY / cellSize)
+  const maxRow = Math.floor(bounds.maxY / cellSize)
+  
+  for (let column = minColumn; column <= maxColumn; column++) {
+    for (let row = minRow; row <= maxRow; row++) {
+      callback(getCellKey(column, row))
+    }
+  }
+}
+
+/**
+ * Builds a spatial index over the bounding boxes of shapes
+ * Shapes without points are left out
+ */
+export const buildSpatialIndex = (
+  shapes: Shape[],
+  cellSize: number = DEFAULT_CELL_SIZE
+): SpatialIndex => {
+  const entries = shapes
+    .filter(shape => shape.points.length > 0)
+    .map(shape => ({ shape, bounds: getShapeBounds(shape) }))
+  const cells = new Map<string, number[]>()
+  
+  entries.forEach((entry, index) => {
+    forEachCell(entry.bounds, cellSize, (key) => {
+      const bucket = cells.get(key)
+      if (bucket) {
+        bucket.push(index)
+      } else {
+        cells.set(key, [index])
+      }
+    })
+  })
+  
+  return { cellSize, entries, cells }
+}
+
+/**
+ * Finds the shapes whose bounding boxes overlap a region, in shapes order
+ */
+export const querySpatialIndex = (index: SpatialIndex, region: Bounds): IndexedShape[] => {
+  const found = new Set<number>()
+  
+  forEachCell(region, index.cellSize, (key) => {
+    index.cells.get(key)?.forEach((entryIndex) => {
+      const { bounds } = index.entries[entryIndex]
+      const overlaps = bounds.minX <= region.maxX &&
+                       bounds.maxX >= region.minX &&
+                       bounds.minY <= region.maxY &&
+                       bounds.maxY >= region.minY
+      if (overlaps) found.add(entryIndex)
+    })
+  })
+  
+  return [...found].sort((a, b) => a - b).map(entryIndex => index.entries[entryIndex])
+}
@@ -0,0 +1,405 @@
+/**
+ * Transform handles - moving, resizing and rotating selected shapes
+ *
+ * Works out the selection frame and its handles, the transform a handle drag
+ * describes, and how that transform changes each shape. CanvasEditor previews
+ * a drag with the same transform the store applies when it is committed.
+ */
+
+import type { Point, Shape, SelectionFrame, ShapeTransform } from './types'
+import { DEFAULT_TEXT_STYLE } from './types'
+import {
+  getShapeBounds,
+  getUnrotatedBounds,
+  getShapeCenter,
+  rotatePoint,
+  distanceBetween
+} from './hitTesting'
+import { translateShape, LINE_ANGLE_STEP } from './utils'
+
+// ============================================================================
+// Types & Constants
+// ============================================================================
+
+/**
+ * Handles on the selection frame - eight resize handles named by compass
+ * direction, and the rotation handle above the top edge
+ */
+export type TransformHandle = 'nw' | 'n' | 'ne' | 'e' | 'se' | 's' | 'sw' | 'w' | 'rotate'
+
+/**
+ * Where each resize handle sits, as a fraction of the frame size from its center
+ */
+const RESIZE_HANDLE_POSITIONS: Record<Exclude<TransformHandle, 'rotate'>, Point> = {
+  nw: { x: -0.5, y: -0.5 },
+  n: { x: 0, y: -0.5 },
+  ne: { x: 0.5, y: -0.5 },
+  e: { x: 0.5, y: 0 },
+  se: { x: 0.5, y: 0.5 },
+  s: { x: 0, y: 0.5 },
+  sw: { x: -0.5, y: 0.5 },
+  w: { x: -0.5, y: 0 }
+}
+
+/**
+ * Size of a resize handle on screen (CSS pixels)
+ */
+export const HANDLE_SIZE = 8
+
+/**
+ * Distance of the rotation handle above the frame on screen (CSS pixels)
+ */
+export const ROTATE_HANDLE_OFFSET = 24
+
+/**
+ * How far from a handle's center (CSS pixels) a click still grabs it
+ */
+const HANDLE_HIT_RADIUS = 8
+
+/**
+ * Color of the selection frame and its handles
+ */
+export const SELECTION_COLOR = '#0d6efd'
+
+// ============================================================================
+// Selection Frame
+// ============================================================================
+
+/**
+ * Frame around the selected shapes
+ * A single shape gets a frame that turns with it; several shapes get their
+ * combined bounding box. Returns null when nothing is selected
+ */
+export const getSelectionFrame = (shapes: Shape[]): SelectionFrame | null => {
+  const nonEmptyShapes = shapes.filter(shape => shape.points.length > 0)
+  if (nonEmptyShapes.length === 0) return null
+  
+  if (nonEmptyShapes.length === 1) {
+    const [shape] = nonEmptyShapes
+    const bounds = getUnrotatedBounds(shape)
+    return {
+      center: getShapeCenter(shape),
+      width: bounds.maxX - bounds.minX,
+      height: bounds.maxY - bounds.minY,
+      rotation: shape.rotation ?? 0
+    }
+  }
+  
+  const bounds = nonEmptyShapes.map(getShapeBounds).reduce((total, shapeBounds) => ({
+    minX: Math.min(total.minX, shapeBounds.minX),
+    minY: Math.min(total.minY, shapeBounds.minY),
+    maxX: Math.max(total.maxX, shapeBounds.maxX),
+    maxY: Math.max(total.maxY, shapeBounds.maxY)
+  }))
+  return {
+    center: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+    width: bounds.maxX - bounds.minX,
+    height: bounds.maxY - bounds.minY,
+    rotation: 0
+  }
+}
+
+/**
+ * Converts a document point to frame coordinates (origin at the center, unrotated)
+ */
+const toFrameSpace = (frame: SelectionFrame, point: Point): Point => {
+  const local = rotatePoint(point, frame.center, -frame.rotation)
+  return { x: local.x - frame.center.x, y: local.y - frame.center.y }
+}
+
+/**
+ * Converts frame coordinates back to a document point
+ */
+const fromFrameSpace = (frame: SelectionFrame, point: Point): Point => {
+  return rotatePoint(
+    { x: frame.center.x + point.x, y: frame.center.y + point.y },
+    frame.center,
+    frame.rotation
+  )
+}
+
+/**
+ * Checks whether a point lies inside a frame
+ */
+export const isPointInFrame = (frame: SelectionFrame, point: Point): boolean => {
+  const local = toFrameSpace(frame, point)
+  return Math.abs(local.x) <= Math.abs(frame.width) / 2 &&
+         Math.abs(local.y) <= Math.abs(frame.height) / 2
+}
+
+// ============================================================================
+// Handles
+// ============================================================================
+
+/**
+ * Document position of a handle
+ * The rotation handle keeps a fixed screen distance from the frame, so it needs the zoom
+ */
+export const getHandlePosition = (
+  frame: SelectionFrame,
+  handle: TransformHandle,
+  zoom: number
+): Point => {
+  if (handle === 'rotate') {
+    const top = -Math.abs(frame.height) / 2
+    return fromFrameSpace(frame, { x: 0, y: top - ROTATE_HANDLE_OFFSET / zoom })
+  }
+  
+  const position = RESIZE_HANDLE_POSITIONS[handle]
+  return fromFrameSpace(frame, { x: position.x * frame.width, y: position.y * frame.height })
+}
+
+/**
+ * Finds the handle under a point; the rotation handle wins over resize handles
+ */
+export const findHandleAt = (
+  frame: SelectionFrame,
+  point: Point,
+  zoom: number
+): TransformHandle | null => {
+  const handles: TransformHandle[] = ['rotate', 'nw', 'ne', 'se', 'sw', 'n', 'e', 's', 'w']
+  return handles.find(handle =>
+    distanceBetween(point, getHandlePosition(frame, handle, zoom)) <= HANDLE_HIT_RADIUS / zoom
+  ) ?? null
+}
+
+/**
+ * Transform from dragging a handle of a frame from one point to another
+ * - resize handles keep the opposite side (or corner) in place;
+ *   constrain scales both axes equally (Shift)
+ * - the rotation handle turns around the frame center;
+ *   constrain snaps the angle to 15° steps (Shift)
+ */
+export const getHandleTransform = (
+  frame: SelectionFrame,
+  handle: TransformHandle,
+  start: Point,
+  current: Point,
+  constrain = false
+): ShapeTransform => {
+  if (handle === 'rotate') {
+    const startAngle = Math.atan2(start.y - frame.center.y, start.x - frame.center.x)
+    const currentAngle = Math.atan2(current.y - frame.center.y, current.x - frame.center.x)
+    let angle = currentAngle - startAngle
+    
+    if (constrain) {
+      const target = Math.round((frame.rotation + angle) / LINE_ANGLE_STEP) * LINE_ANGLE_STEP
+      angle = target - frame.rotation
+    }
+    return { type: 'rotate', center: frame.center, angle }
+  }
+  
+  const position = RESIZE_HANDLE_POSITIONS[handle]
+  const local = toFrameSpace(frame, current)
+  
+  // Scale along each axis the handle moves, measured from the opposite side;
+  // a flat frame (e.g. a horizontal line) keeps its thickness
+  const anchorX = -position.x * frame.width
+  const anchorY = -position.y * frame.height
+  let scaleX = position.x !== 0 && frame.width !== 0 ? (local.x - anchorX) / (-2 * anchorX) : 1
+  let scaleY = position.y !== 0 && frame.height !== 0 ? (local.y - anchorY) / (-2 * anchorY) : 1
+  
+  if (constrain) {
+    if (position.x !== 0 && position.y !== 0) {
+      const scale = Math.max(Math.abs(scaleX), Math.abs(scaleY))
+      scaleX = Math.sign(scaleX || 1) * scale
+      scaleY = Math.sign(scaleY || 1) * scale
+    } else if (position.x !== 0) {
+      scaleY = Math.abs(scaleX)
+    } else {
+      scaleX = Math.abs(scaleY)
+    }
+  }
+  
+  return {
+    type: 'resize',
+    from: frame,
+    to: {
+      center: fromFrameSpace(frame, { x: anchorX * (1 - scaleX), y: anchorY * (1 - scaleY) }),
+      width: frame.width * scaleX,
+      height: frame.height * scaleY,
+      rotation: frame.rotation
+    }
+  }
+}
+
+/**
+ * Frame the selection will have once a transform is applied to it
+ */
+export const transformFrame = (frame: SelectionFrame, transform: ShapeTransform): SelectionFrame => {
+  switch (transform.type) {
+    case 'move':
+      return {
+        ...frame,
+        center: { x: frame.center.x + transform.dx, y: frame.center.y + transform.dy }
+      }
+    
+    case 'resize':
+      return transform.to
+    
+    case 'rotate':
+      return {
+        ...frame,
+        center: rotatePoint(frame.center, transform.center, transform.angle),
+        rotation: frame.rotation + transform.angle
+      }
+  }
+}
+
+/**
+ * Checks whether a transform leaves shapes where they are
+ */
+export const isIdentityTransform = (transform: ShapeTransform): boolean => {
+  switch (transform.type) {
+    case 'move':
+      return transform.dx === 0 && transform.dy === 0
+    
+    case 'resize':
+      return transform.from.width === transform.to.width &&
+             transform.from.height === transform.to.height &&
+             transform.from.center.x === transform.to.center.x &&
+             transform.from.center.y === transform.to.center.y
+    
+    case 'rotate':
+      return transform.angle === 0
+  }
+}
+
+// ============================================================================
+// Applying Transforms
+// ============================================================================
+
+/**
+ * Wraps an angle into (-π, π]
+ */
+const normalizeAngle = (angle: number): number => {
+  const wrapped = angle % (2 * Math.PI)
+  if (wrapped > Math.PI) return wrapped - 2 * Math.PI
+  if (wrapped <= -Math.PI) return wrapped + 2 * Math.PI
+  return wrapped
+}
+
+/**
+ * Returns a copy of a shape with its geometry scaled around its center
+ * Circles and text cannot stretch, so they scale evenly by the average factor
+ */
+const scaleShapeAround = (shape: Shape, center: Point, scaleX: number, scaleY: number): Shape => {
+  const shapeCenter = getShapeCenter(shape)
+  const isEven = shape.type === 'circle' || shape.type === 'text'
+  const evenScale = Math.sqrt(Math.abs(scaleX * scaleY))
+  const sx = isEven ? evenScale : scaleX
+  const sy = isEven ? evenScale : scaleY
+  
+  const scaled: Shape = {
+    ...shape,
+    points: shape.points.map(point => ({
+      ...point,
+      x: center.x + (point.x - shapeCenter.x) * sx,
+      y: center.y + (point.y - shapeCenter.y) * sy
+    }))
+  }
+  if (shape.type === 'text') {
+    scaled.fontSize = (shape.fontSize ?? DEFAULT_TEXT_STYLE.fontSize) * evenScale
+  }
+  return scaled
+}
+
+/**
+ * Returns a copy of a shape with a transform applied
+ * Points stay unrotated; rotation only changes the shape's rotation and center
+ */
+export const applyShapeTransform = (shape: Shape, transform: ShapeTransform): Shape => {
+  if (shape.points.length === 0) return shape
+  
+  switch (transform.type) {
+    case 'move':
+      return translateShape(shape, transform.dx, transform.dy)
+    
+    case 'resize': {
+      const { from, to } = transform
+      const scaleX = from.width === 0 ? 1 : to.width / from.width
+      const scaleY = from.height === 0 ? 1 : to.height / from.height
+      
+      // The shape's center keeps its place within the frame
+      const offset = toFrameSpace(from, getShapeCenter(shape))
+      const center = fromFrameSpace(to, { x: offset.x * scaleX, y: offset.y * scaleY })
+      
+      // Stretch along the shape's own axes: shapes turned a quarter turn from the
+      // frame swap the factors, and shapes at other angles scale evenly
+      const angle = (shape.rotation ?? 0) - from.rotation
+      const isAligned = Math.abs(Math.sin(angle)) < 1e-6
+      const isQuarterTurned = Math.abs(Math.cos(angle)) < 1e-6
+      const evenScale = Math.sqrt(Math.abs(scaleX * scaleY))
+      
+      if (isAligned) return scaleShapeAround(shape, center, scaleX, scaleY)
+      if (isQuarterTurned) return scaleShapeAround(shape, center, scaleY, scaleX)
+      return scaleShapeAround(shape, center, evenScale, evenScale)
+    }
+    
+    case 'rotate': {
+      const center = getShapeCenter(shape)
+      const rotatedCenter = rotatePoint(center, transform.center, transform.angle)
+      const rotation = normalizeAngle((shape.rotation ?? 0) + transform.angle)
+      
+      return {
+        ...translateShape(shape, rotatedCenter.x - center.x, rotatedCenter.y - center.y),
+        rotation: rotation === 0 ? undefined : rotation
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Draws a selection frame with its handles
+ * Expects the viewport transform on the context; sizes stay constant on screen
+ */
+export const renderSelectionFrame = (
+  ctx: CanvasRenderingContext2D,
+  frame: SelectionFrame,
+  zoom: number
+): void => {
+  const width = Math.abs(frame.width)
+  const height = Math.abs(frame.height)
+  const handleSize = HANDLE_SIZE / zoom
+  
+  ctx.save()
+  ctx.translate(frame.center.x, frame.center.y)
+  ctx.rotate(frame.rotation)
+  
+  ctx.strokeStyle = SELECTION_COLOR
+  ctx.fillStyle = '#ffffff'
+  ctx.lineWidth = 1 / zoom
+  ctx.globalAlpha = 1
+  
+  // Frame, and the stem of the rotation handle
+  ctx.beginPath()
+  ctx.rect(-width / 2, -height / 2, width, height)
+  ctx.moveTo(0, -height / 2)
+  ctx.lineTo(0, -height / 2 - ROTATE_HANDLE_OFFSET / zoom)
+  ctx.stroke()
+  
+  // Resize handles
+  Object.values(RESIZE_HANDLE_POSITIONS).forEach(position => {
+    ctx.beginPath()
+    ctx.rect(
+      position.x * width - handleSize / 2,
+      position.y * height - handleSize / 2,
+      handleSize,
+      handleSize
+    )
+    ctx.fill()
+    ctx.stroke()
+  })
+  
+  // Rotation handle
+  ctx.beginPath()
+  ctx.arc(0, -height / 2 - ROTATE_HANDLE_OFFSET / zoom, handleSize / 2, 0, 2 * Math.PI)
+  ctx.fill()
+  ctx.stroke()
+  
+  ctx.restore()
+}
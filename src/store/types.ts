@@ -14,17 +14,74 @@
 
 /**
  * Represents a point in 2D space
- * Used for tracking mouse/touch coordinates and drawing paths
+ * Used for tracking pointer coordinates and drawing paths
  */
 export interface Point {
   x: number
   y: number
+  
+  /** Stylus pressure from 0 to 1 (only recorded for pen input) */
+  pressure?: number
+  
+  /** Time the point was sampled, in milliseconds */
+  t?: number
 }
 
 /**
  * Supported drawing tools
  */
-export type DrawingTool = 'pen' | 'rectangle' | 'circle'
+export type DrawingTool =
+  | 'select'
+  | 'pen'
+  | 'brush'
+  | 'marker'
+  | 'line'
+  | 'arrow'
+  | 'rectangle'
+  | 'circle'
+  | 'ellipse'
+  | 'polygon'
+  | 'text'
+  | 'eraser'
+  | 'fill'
+
+/**
+ * Which ends of an arrow get an arrowhead
+ */
+export type Arrowheads = 'start' | 'end' | 'both'
+
+/**
+ * How the eraser treats shapes it touches
+ * - shape: remove every shape the eraser touches
+ * - split: cut freehand strokes where the eraser passed, remove other shapes
+ */
+export type EraserMode = 'shape' | 'split'
+
+/**
+ * Changes to where selected shapes sit in the paint order
+ * - front/back: above or below every other shape
+ * - forward/backward: one step past the neighbouring unselected shape
+ */
+export type ZOrderChange = 'front' | 'back' | 'forward' | 'backward'
+
+/**
+ * Line dash styles for shape strokes
+ */
+export type LineDash = 'solid' | 'dashed' | 'dotted'
+
+/**
+ * Stroke styling applied to a shape
+ */
+export interface ShapeStyle {
+  /** Stroke width in canvas pixels */
+  strokeWidth: number
+  
+  /** Opacity from 0 (transparent) to 1 (opaque) */
+  opacity: number
+  
+  /** Line dash pattern */
+  dash: LineDash
+}
 
 /**
  * Represents a complete drawing shape
@@ -45,8 +102,211 @@ export interface Shape {
   
   /** Timestamp when the shape was created */
   timestamp: number
+  
+  /** Stroke width in canvas pixels (defaults to DEFAULT_SHAPE_STYLE) */
+  strokeWidth?: number
+  
+  /** Opacity from 0 to 1 (defaults to DEFAULT_SHAPE_STYLE) */
+  opacity?: number
+  
+  /** Line dash pattern (defaults to DEFAULT_SHAPE_STYLE) */
+  dash?: LineDash
+  
+  /** Fill color for closed shapes (hex format, or NO_FILL) */
+  fillColor?: string
+  
+  /** Arrowheads drawn by arrow shapes (defaults to DEFAULT_ARROWHEADS) */
+  arrowheads?: Arrowheads
+  
+  /** Content of text shapes, which are anchored at their first point (top-left) */
+  text?: string
+  
+  /** Font size of text shapes in canvas pixels (defaults to DEFAULT_TEXT_STYLE) */
+  fontSize?: number
+  
+  /** CSS font family of text shapes (defaults to DEFAULT_TEXT_STYLE) */
+  fontFamily?: string
+  
+  /** Whether a freehand stroke is drawn as a smooth curve through its points */
+  smooth?: boolean
+  
+  /** Number of points sampled while drawing, before the stroke was simplified */
+  rawPointCount?: number
+  
+  /** Clockwise rotation in radians around the center of the unrotated bounds (defaults to 0) */
+  rotation?: number
+}
+
+/**
+ * Data needed to add a shape - the store assigns the id and timestamp
+ */
+export type NewShapeData = Omit<Shape, 'id' | 'timestamp'>
+
+/**
+ * Optional shape properties beyond its geometry, color and type
+ */
+export type ShapeOptions = Partial<Omit<Shape, 'id' | 'points' | 'color' | 'type' | 'timestamp'>>
+
+/**
+ * Post-processing of freehand strokes when they are finished
+ */
+export interface StrokeProcessingSettings {
+  /** Largest distance (document units) simplification may move a stroke; 0 keeps every point */
+  simplifyTolerance: number
+  
+  /** Whether new strokes are drawn as smooth curves */
+  smoothing: boolean
+  
+  /** Whether pen strokes that match a line, rectangle, circle, ellipse or triangle become that shape */
+  shapeAssist: boolean
+}
+
+/**
+ * Modifier keys held while drawing, which constrain shape tools
+ * - shift: squares, circles locked to the horizontal radius, lines at 15° steps
+ * - alt: rectangles and ellipses drawn from the center
+ */
+export interface DrawingModifiers {
+  shift: boolean
+  alt: boolean
+}
+
+/**
+ * Grid drawn behind the shapes, and how drawing snaps to it and to other shapes
+ */
+export interface GridSettings {
+  /** Distance between grid lines in document units */
+  spacing: number
+  
+  /** Whether the grid is shown */
+  visible: boolean
+  
+  /** Whether geometric tools snap their points to grid intersections */
+  snap: boolean
+  
+  /** Whether box-like shapes snap to the edges and centers of other shapes, with guides */
+  guides: boolean
+}
+
+/**
+ * The part of the document shown on the canvas
+ * Shapes are stored in document coordinates; on screen they are drawn at
+ * (document - offset) * zoom, in CSS pixels relative to the canvas
+ */
+export interface Viewport {
+  /** Document x coordinate shown at the left edge of the canvas */
+  offsetX: number
+  
+  /** Document y coordinate shown at the top edge of the canvas */
+  offsetY: number
+  
+  /** Screen pixels per document unit */
+  zoom: number
+}
+
+/**
+ * A box around selected shapes, rotated with a single selected shape
+ * Transform handles sit on its corners and edges
+ */
+export interface SelectionFrame {
+  center: Point
+  width: number
+  height: number
+  
+  /** Clockwise rotation in radians around the center */
+  rotation: number
+}
+
+/**
+ * A change to the geometry of the selected shapes
+ * - move: translate by an offset
+ * - resize: stretch the shapes from one frame to another with the same rotation
+ *   (negative sizes in the target frame flip the shapes)
+ * - rotate: turn the shapes around a center point
+ */
+export type ShapeTransform =
+  | { type: 'move'; dx: number; dy: number }
+  | { type: 'resize'; from: SelectionFrame; to: SelectionFrame }
+  | { type: 'rotate'; center: Point; angle: number }
+
+/**
+ * A splice of the shapes array: at index, the removed shapes were replaced by
+ * the inserted ones. Reverting swaps the two
+ */
+export interface ShapesPatch {
+  index: number
+  removed: Shape[]
+  inserted: Shape[]
+}
+
+/**
+ * What kind of change a history step made
+ */
+export type HistoryActionType =
+  | 'draw'
+  | 'add'
+  | 'erase'
+  | 'shapeAssist'
+  | 'delete'
+  | 'move'
+  | 'resize'
+  | 'rotate'
+  | 'bringToFront'
+  | 'sendToBack'
+  | 'bringForward'
+  | 'sendBackward'
+  | 'recolor'
+  | 'fill'
+  | 'editText'
+  | 'clear'
+  | 'merge'
+
+/**
+ * One undoable step - the patches that redo it, applied in order
+ */
+export interface HistoryEntry {
+  patches: ShapesPatch[]
+  
+  /** What the step did */
+  action: HistoryActionType
+  
+  /** When the step was recorded (ms since epoch) */
+  timestamp: number
+  
+  /** Name given to the step by the user, shown instead of the generated label */
+  label?: string
+  
+  /** Other branches starting from the same position as this step (tree mode) */
+  branches?: HistoryBranch[]
 }
 
+/**
+ * Steps that were undone and then replaced by a new change, kept in tree mode
+ * Its first entry applies at the same position as the entry it is stored on
+ */
+export interface HistoryBranch {
+  id: string
+  entries: HistoryEntry[]
+}
+
+/**
+ * What happens to undone steps when a new change is made
+ * - linear: they are discarded, like most editors
+ * - tree: they are kept as a branch that can be switched back to
+ */
+export type HistoryMode = 'linear' | 'tree'
+
+/**
+ * How much undo history is kept before the oldest steps are discarded
+ * - entries: at most maxEntries steps
+ * - memory: as many steps as fit in an estimated maxBytes
+ * - unlimited: every step is kept
+ */
+export type HistoryLimit =
+  | { type: 'entries', maxEntries: number }
+  | { type: 'memory', maxBytes: number }
+  | { type: 'unlimited' }
+
 // ============================================================================
 // Application State
 // ============================================================================
@@ -65,17 +325,62 @@ export interface CanvasState {
   /** Currently selected drawing tool */
   currentTool: DrawingTool
   
-  /** History stack for undo functionality - each entry is a complete shapes array */
-  history: Shape[][]
+  /** Undo history - each entry holds the patches for one step */
+  history: HistoryEntry[]
   
-  /** Current position in history (for undo/redo) */
+  /** Number of history steps applied to the shapes (for undo/redo) */
   historyIndex: number
   
+  /** Whether undone steps are discarded or kept as branches by new changes */
+  historyMode: HistoryMode
+  
+  /** How much history is kept before the oldest steps are discarded */
+  historyLimit: HistoryLimit
+  
   /** Whether the canvas is currently in drawing mode */
   isDrawing: boolean
   
   /** Current drawing path (points being drawn before completion) */
   currentPath: Point[]
+  
+  /** IDs of the currently selected shapes, in selection order */
+  selectedShapeIds: string[]
+  
+  /** How the eraser tool treats the shapes it touches */
+  eraserMode: EraserMode
+
+  /** Stroke width applied to new shapes */
+  currentStrokeWidth: number
+
+  /** Opacity (0-1) applied to new shapes */
+  currentOpacity: number
+
+  /** Line dash applied to new shapes */
+  currentDash: LineDash
+
+  /** Fill color for new closed shapes and the fill bucket (hex format, or NO_FILL) */
+  currentFillColor: string
+
+  /** Arrowheads for new arrows */
+  currentArrowheads: Arrowheads
+
+  /** Font size for new text shapes */
+  currentFontSize: number
+
+  /** Font family for new text shapes */
+  currentFontFamily: string
+
+  /** Pan and zoom of the canvas (view state, not part of undo history) */
+  viewport: Viewport
+
+  /** Grid overlay and snap-to-grid settings */
+  grid: GridSettings
+
+  /** Modifier keys currently constraining the shape being drawn */
+  drawingModifiers: DrawingModifiers
+
+  /** Simplification and smoothing applied to freehand strokes */
+  strokeProcessing: StrokeProcessingSettings
 }
 
 // ============================================================================
@@ -88,7 +393,7 @@ export interface CanvasState {
  */
 export interface CanvasActions {
   /** Add a completed shape to the canvas */
-  addShape: (shape: Omit<Shape, 'id' | 'timestamp'>) => void
+  addShape: (shape: NewShapeData) => void
   
   /** Change the current drawing color */
   changeColor: (color: string) => void
@@ -96,26 +401,128 @@ export interface CanvasActions {
   /** Change the current drawing tool */
   changeTool: (tool: DrawingTool) => void
   
-  /** Start drawing (set isDrawing to true and initialize currentPath) */
+  /** Change how the eraser treats the shapes it touches */
+  changeEraserMode: (mode: EraserMode) => void
+  
+  /** Change the stroke width for new shapes */
+  changeStrokeWidth: (width: number) => void
+  
+  /** Change the opacity for new shapes */
+  changeOpacity: (opacity: number) => void
+  
+  /** Change the line dash for new shapes */
+  changeDash: (dash: LineDash) => void
+  
+  /** Change the fill color for new closed shapes and the fill bucket */
+  changeFillColor: (fillColor: string) => void
+  
+  /** Change which ends of new arrows get an arrowhead */
+  changeArrowheads: (arrowheads: Arrowheads) => void
+  
+  /** Change the font size for new text shapes */
+  changeFontSize: (fontSize: number) => void
+  
+  /** Change the font family for new text shapes */
+  changeFontFamily: (fontFamily: string) => void
+  
+  /** Change some of the grid settings (spacing, visibility, snapping) */
+  changeGrid: (settings: Partial<GridSettings>) => void
+  
+  /** Change how finished freehand strokes are simplified and smoothed */
+  changeStrokeProcessing: (settings: Partial<StrokeProcessingSettings>) => void
+  
+  /** Pan the view by an offset in screen pixels */
+  pan: (dx: number, dy: number) => void
+  
+  /** Zoom the view by a factor, keeping the document point under a screen point in place */
+  zoomAt: (point: Point, factor: number) => void
+  
+  /** Zoom and pan so that all shapes fit a canvas of the given screen size */
+  zoomToFit: (width: number, height: number) => void
+  
+  /** Return to the default pan and zoom */
+  resetView: () => void
+  
+  /** Start drawing (set isDrawing to true and initialize currentPath); adds a vertex while drawing a polygon */
   startDrawing: (startPoint: Point) => void
   
-  /** Continue drawing (add point to currentPath) */
+  /** Continue drawing (add point to currentPath, or move the pending polygon vertex) */
   continueDrawing: (point: Point) => void
   
-  /** Finish drawing (convert currentPath to shape and add to shapes) */
+  /** Finish drawing (convert currentPath to shape, or erase along it, as one history step); polygons wait for closePolygon */
   finishDrawing: () => void
   
+  /** Close the polygon being drawn and add it as a shape */
+  closePolygon: () => void
+  
+  /** Update the modifier keys that constrain the shape being drawn */
+  setDrawingModifiers: (modifiers: DrawingModifiers) => void
+  
   /** Undo the last action */
   undo: () => void
   
   /** Redo the previously undone action */
   redo: () => void
   
+  /** Jump straight to a history position (0 is the starting canvas) in one update */
+  goToHistory: (index: number) => void
+  
+  /** Name the history step at index in history; an empty label brings back the generated one */
+  setHistoryLabel: (index: number, label: string) => void
+  
+  /** Choose whether new changes discard undone steps or keep them as branches; linear drops existing branches */
+  setHistoryMode: (mode: HistoryMode) => void
+  
+  /** Switch to another branch of the undo tree, ending at its last step */
+  switchHistoryBranch: (branchId: string) => void
+  
+  /** Set how much history is kept; existing steps past the new limit are discarded */
+  setHistoryLimit: (limit: HistoryLimit) => void
+  
+  /** Select a shape; additive toggles it within the current selection */
+  selectShape: (id: string, additive?: boolean) => void
+  
+  /** Clear the current selection */
+  deselectAll: () => void
+  
+  /** Delete all selected shapes */
+  deleteSelected: () => void
+  
+  /** Move all selected shapes by an offset */
+  moveSelected: (dx: number, dy: number) => void
+  
+  /** Move, resize or rotate all selected shapes as one undoable step */
+  transformSelected: (transform: ShapeTransform) => void
+  
+  /** Paint the selected shapes above every other shape */
+  bringToFront: () => void
+  
+  /** Paint the selected shapes below every other shape */
+  sendToBack: () => void
+  
+  /** Move the selected shapes one step up the paint order */
+  bringForward: () => void
+  
+  /** Move the selected shapes one step down the paint order */
+  sendBackward: () => void
+  
+  /** Change the color of all selected shapes */
+  recolorSelected: (color: string) => void
+  
+  /** Set the fill of a closed shape (fill bucket) */
+  setShapeFill: (id: string, fillColor: string) => void
+  
+  /** Replace the content of a text shape; empty text removes the shape */
+  updateText: (id: string, text: string) => void
+  
   /** Clear all shapes from the canvas */
   clear: () => void
   
-  /** Reset the entire state to initial values */
+  /** Reset the entire state to initial values, keeping the history limit setting */
   reset: () => void
+  
+  /** Replace the entire state (used to hand state over when switching stores) */
+  hydrate: (state: CanvasState) => void
 }
 
 // ============================================================================
@@ -132,6 +539,80 @@ export interface CanvasStore extends CanvasState, CanvasActions {}
 // Initial State
 // ============================================================================
 
+/**
+ * Default stroke styling, also used for shapes that carry no style of their own
+ */
+export const DEFAULT_SHAPE_STYLE: ShapeStyle = {
+  strokeWidth: 2,
+  opacity: 1,
+  dash: 'solid'
+}
+
+/**
+ * Fill color value meaning "no fill"
+ */
+export const NO_FILL = 'none'
+
+/**
+ * Font settings used by text shapes that carry none of their own
+ */
+export const DEFAULT_TEXT_STYLE = {
+  fontSize: 20,
+  fontFamily: 'sans-serif'
+}
+
+/**
+ * Line height of text shapes, relative to the font size
+ */
+export const TEXT_LINE_HEIGHT = 1.25
+
+/**
+ * Arrowheads used by arrows that carry no setting of their own
+ */
+export const DEFAULT_ARROWHEADS: Arrowheads = 'end'
+
+/**
+ * Stroke processing of a new canvas
+ * A tolerance below a pixel removes redundant samples without a visible change
+ */
+export const DEFAULT_STROKE_PROCESSING: StrokeProcessingSettings = {
+  simplifyTolerance: 0.75,
+  smoothing: true,
+  shapeAssist: false
+}
+
+/**
+ * No modifier keys held
+ */
+export const NO_DRAWING_MODIFIERS: DrawingModifiers = {
+  shift: false,
+  alt: false
+}
+
+/**
+ * Grid settings of a new canvas - hidden, with snapping off
+ */
+export const DEFAULT_GRID: GridSettings = {
+  spacing: 20,
+  visible: false,
+  snap: false,
+  guides: true
+}
+
+/**
+ * Viewport with the document origin at the top-left corner and no zoom
+ */
+export const DEFAULT_VIEWPORT: Viewport = {
+  offsetX: 0,
+  offsetY: 0,
+  zoom: 1
+}
+
+/**
+ * Default history limit
+ */
+export const DEFAULT_HISTORY_LIMIT: HistoryLimit = { type: 'entries', maxEntries: 50 }
+
 /**
  * Default initial state for the canvas
  * Used by all state management implementations as their starting point
@@ -140,10 +621,25 @@ export const initialCanvasState: CanvasState = {
   shapes: [],
   currentColor: '#000000',
   currentTool: 'pen',
-  history: [[]],
+  history: [],
   historyIndex: 0,
+  historyMode: 'linear',
+  historyLimit: DEFAULT_HISTORY_LIMIT,
   isDrawing: false,
-  currentPath: []
+  currentPath: [],
+  selectedShapeIds: [],
+  eraserMode: 'shape',
+  currentStrokeWidth: DEFAULT_SHAPE_STYLE.strokeWidth,
+  currentOpacity: DEFAULT_SHAPE_STYLE.opacity,
+  currentDash: DEFAULT_SHAPE_STYLE.dash,
+  currentFillColor: NO_FILL,
+  currentArrowheads: DEFAULT_ARROWHEADS,
+  currentFontSize: DEFAULT_TEXT_STYLE.fontSize,
+  currentFontFamily: DEFAULT_TEXT_STYLE.fontFamily,
+  viewport: DEFAULT_VIEWPORT,
+  grid: DEFAULT_GRID,
+  drawingModifiers: NO_DRAWING_MODIFIERS,
+  strokeProcessing: DEFAULT_STROKE_PROCESSING
 }
 
 // ============================================================================
@@ -178,17 +674,47 @@ export interface ToolConfig {
   name: string
   icon: string
   description: string
+  
+  /** Multiplier from the chosen stroke width to the rendered one (defaults to 1) */
+  strokeWidthScale?: number
 }
 
 /**
  * Tool configurations for UI display
  */
 export const TOOL_CONFIGS: Record<DrawingTool, ToolConfig> = {
+  select: {
+    name: 'Select',
+    icon: '🖱️',
+    description: 'Click shapes to select them; drag to move, handles resize and rotate, double-click text to edit it'
+  },
   pen: {
     name: 'Pen',
     icon: '✏️',
     description: 'Freehand drawing'
   },
+  brush: {
+    name: 'Brush',
+    icon: '🖌️',
+    description: 'Freehand strokes that thin out when drawn quickly',
+    strokeWidthScale: 3
+  },
+  marker: {
+    name: 'Marker',
+    icon: '🖍️',
+    description: 'Wide, semi-transparent strokes with flat ends',
+    strokeWidthScale: 4
+  },
+  line: {
+    name: 'Line',
+    icon: '📏',
+    description: 'Draw straight lines'
+  },
+  arrow: {
+    name: 'Arrow',
+    icon: '↗️',
+    description: 'Draw arrows'
+  },
   rectangle: {
     name: 'Rectangle',
     icon: '⬛',
@@ -198,5 +724,30 @@ export const TOOL_CONFIGS: Record<DrawingTool, ToolConfig> = {
     name: 'Circle',
     icon: '⭕',
     description: 'Draw circles'
+  },
+  ellipse: {
+    name: 'Ellipse',
+    icon: '⬭',
+    description: 'Draw ellipses inside a dragged box'
+  },
+  polygon: {
+    name: 'Polygon',
+    icon: '⬠',
+    description: 'Click to add vertices, double-click to close'
+  },
+  text: {
+    name: 'Text',
+    icon: '🔤',
+    description: 'Click to place text, or click existing text to edit it'
+  },
+  eraser: {
+    name: 'Eraser',
+    icon: '🧽',
+    description: 'Erase shapes by dragging across them'
+  },
+  fill: {
+    name: 'Fill',
+    icon: '🪣',
+    description: 'Fill closed shapes by clicking inside them'
   }
 } as const
\ No newline at end of file
@@ -3,9 +3,49 @@
  * 
  * These pure functions handle common operations needed across all
  * state management implementations, ensuring consistent behavior.
+ * The same goes for the helpers split into their own modules (hitTesting,
+ * viewport, spatialIndex, smartGuides, transform, shapeRecognition, history).
  */
 
-import type { Point, Shape, DrawingTool } from './types'
+import type {
+  Point,
+  Arrowheads,
+  Shape,
+  ShapeStyle,
+  ShapeOptions,
+  LineDash,
+  DrawingTool,
+  CanvasState,
+  EraserMode,
+  GridSettings,
+  DrawingModifiers,
+  StrokeProcessingSettings,
+  ZOrderChange
+} from './types'
+import {
+  TOOL_CONFIGS,
+  DEFAULT_SHAPE_STYLE,
+  DEFAULT_TEXT_STYLE,
+  TEXT_LINE_HEIGHT,
+  DEFAULT_ARROWHEADS,
+  NO_FILL,
+  NO_DRAWING_MODIFIERS
+} from './types'
+import type { Bounds } from './hitTesting'
+import {
+  hitTestShape,
+  getHitReach,
+  boundsContainPoint,
+  findShapeAt,
+  DEFAULT_HIT_TOLERANCE,
+  distanceBetween,
+  distanceToSegment,
+  getShapeCenter,
+  rotatePoint
+} from './hitTesting'
+import { addToHistory } from './history'
+import type { SpatialIndex } from './spatialIndex'
+import { buildSpatialIndex, querySpatialIndex } from './spatialIndex'
 
 // ============================================================================
 // ID Generation
@@ -29,9 +69,11 @@ export const generateShapeId = (): string => {
 export const createShape = (
   points: Point[],
   color: string,
-  type: DrawingTool
+  type: DrawingTool,
+  options: ShapeOptions = {}
 ): Shape => {
   return {
+    ...options,
     id: generateShapeId(),
     points: [...points], // Create a copy to avoid mutations
     color,
@@ -40,69 +82,527 @@ export const createShape = (
   }
 }
 
+/**
+ * Tools that draw closed shapes, which can have a fill
+ */
+export const CLOSED_SHAPE_TOOLS: DrawingTool[] = ['rectangle', 'circle', 'ellipse', 'polygon']
+
+/**
+ * Tools that draw freehand strokes through every sampled point
+ */
+export const FREEHAND_TOOLS: DrawingTool[] = ['pen', 'brush', 'marker']
+
+/**
+ * Freehand tools whose finished strokes are simplified and may be smoothed
+ * (brush widths come from the raw samples and their timing, so brush strokes are kept as drawn)
+ */
+export const PROCESSED_STROKE_TOOLS: DrawingTool[] = ['pen', 'marker']
+
+/**
+ * Tools whose points snap to the grid - geometric shapes, not freehand strokes
+ */
+export const SNAPPING_TOOLS: DrawingTool[] = ['line', 'arrow', 'rectangle', 'circle', 'ellipse', 'polygon']
+
+/**
+ * Tools that snap to smart guides from other shapes
+ */
+export const GUIDE_TOOLS: DrawingTool[] = ['rectangle', 'circle', 'ellipse']
+
+/**
+ * Checks whether a tool draws freehand strokes
+ */
+export const isFreehandTool = (tool: DrawingTool): boolean => {
+  return FREEHAND_TOOLS.includes(tool)
+}
+
+/**
+ * Checks whether a tool's finished strokes are simplified and smoothed
+ */
+export const isProcessedStrokeTool = (tool: DrawingTool): boolean => {
+  return PROCESSED_STROKE_TOOLS.includes(tool)
+}
+
+/**
+ * Checks whether a tool's points snap to the grid when snapping is on
+ */
+export const isSnappingTool = (tool: DrawingTool): boolean => {
+  return SNAPPING_TOOLS.includes(tool)
+}
+
+/**
+ * Checks whether a tool snaps to smart guides when they are on
+ */
+export const isGuideTool = (tool: DrawingTool): boolean => {
+  return GUIDE_TOOLS.includes(tool)
+}
+
+/**
+ * Checks whether a tool draws closed shapes
+ */
+export const isClosedShapeTool = (tool: DrawingTool): boolean => {
+  return CLOSED_SHAPE_TOOLS.includes(tool)
+}
+
+/**
+ * Collects the options the current tool settings give to a new shape
+ */
+export const getShapeOptionsFromState = (state: CanvasState): ShapeOptions => {
+  const options: ShapeOptions = {
+    strokeWidth: state.currentStrokeWidth,
+    opacity: state.currentOpacity,
+    dash: state.currentDash
+  }
+  
+  if (isClosedShapeTool(state.currentTool) && state.currentFillColor !== NO_FILL) {
+    options.fillColor = state.currentFillColor
+  }
+  if (state.currentTool === 'arrow') {
+    options.arrowheads = state.currentArrowheads
+  }
+  if (state.currentTool === 'text') {
+    options.fontSize = state.currentFontSize
+    options.fontFamily = state.currentFontFamily
+  }
+  if (isProcessedStrokeTool(state.currentTool) && state.strokeProcessing.smoothing) {
+    options.smooth = true
+  }
+  return options
+}
+
+/**
+ * Resolves a shape's stroke style, falling back to the defaults
+ */
+export const getShapeStyle = (shape: ShapeOptions): ShapeStyle => {
+  return {
+    strokeWidth: shape.strokeWidth ?? DEFAULT_SHAPE_STYLE.strokeWidth,
+    opacity: shape.opacity ?? DEFAULT_SHAPE_STYLE.opacity,
+    dash: shape.dash ?? DEFAULT_SHAPE_STYLE.dash
+  }
+}
+
 // ============================================================================
 // Canvas Rendering
 // ============================================================================
 
 /**
- * Renders a single shape on the canvas context
+ * Dash pattern for a line dash style, scaled with the stroke width
+ * Dotted lines rely on round caps to turn zero-length dashes into dots
  */
-export const renderShape = (ctx: CanvasRenderingContext2D, shape: Shape): void => {
-  if (shape.points.length === 0) return
+export const getLineDashPattern = (dash: LineDash, strokeWidth: number): number[] => {
+  switch (dash) {
+    case 'dashed':
+      return [strokeWidth * 4, strokeWidth * 3]
+    case 'dotted':
+      return [0, strokeWidth * 2.5]
+    default:
+      return []
+  }
+}
 
-  ctx.save()
-  ctx.strokeStyle = shape.color
-  ctx.lineWidth = 2
-  ctx.lineCap = 'round'
+/**
+ * Opacity of marker ink relative to the shape's own opacity
+ */
+export const MARKER_OPACITY = 0.4
+
+/**
+ * Applies stroke styling for a tool to the canvas context
+ */
+const applyStrokeStyle = (
+  ctx: CanvasRenderingContext2D,
+  color: string,
+  style: ShapeStyle,
+  tool: DrawingTool
+): void => {
+  const strokeWidth = style.strokeWidth * (TOOL_CONFIGS[tool].strokeWidthScale ?? 1)
+  const isMarker = tool === 'marker'
+  
+  ctx.strokeStyle = color
+  ctx.fillStyle = color
+  ctx.lineWidth = strokeWidth
+  ctx.lineCap = isMarker ? 'butt' : 'round'
   ctx.lineJoin = 'round'
+  ctx.globalAlpha = isMarker ? style.opacity * MARKER_OPACITY : style.opacity
+  ctx.setLineDash(getLineDashPattern(style.dash, strokeWidth))
+}
+
+// ============================================================================
+// Text Rendering
+// ============================================================================
+
+/**
+ * CSS font shorthand for a text shape
+ */
+export const getTextFont = (options: ShapeOptions): string => {
+  const fontSize = options.fontSize ?? DEFAULT_TEXT_STYLE.fontSize
+  const fontFamily = options.fontFamily ?? DEFAULT_TEXT_STYLE.fontFamily
+  return `${fontSize}px ${fontFamily}`
+}
+
+/**
+ * Fills the lines of a text shape below its top-left anchor
+ */
+const fillTextLines = (
+  ctx: CanvasRenderingContext2D,
+  anchor: Point,
+  options: ShapeOptions
+): void => {
+  const fontSize = options.fontSize ?? DEFAULT_TEXT_STYLE.fontSize
+  
+  ctx.font = getTextFont(options)
+  ctx.textBaseline = 'top'
+  ;(options.text ?? '').split('\n').forEach((line, index) => {
+    ctx.fillText(line, anchor.x, anchor.y + index * fontSize * TEXT_LINE_HEIGHT)
+  })
+}
+
+// ============================================================================
+// Brush Rendering
+// ============================================================================
+
+/**
+ * Brush width range, relative to the rendered stroke width
+ */
+const BRUSH_MIN_WIDTH_RATIO = 0.3
+
+/**
+ * Speed (in canvas pixels per millisecond) at which the brush is thinnest
+ */
+const BRUSH_FAST_SPEED = 1.8
+
+/**
+ * Sample interval assumed for points without timestamps - a 60 Hz mouse
+ * Spacing between such samples then stands in for speed
+ */
+const BRUSH_SAMPLE_INTERVAL = 1000 / 60
+
+/**
+ * How quickly the brush width follows speed changes over one sample interval
+ * (0-1, lower is smoother)
+ */
+const BRUSH_WIDTH_SMOOTHING = 0.35
+
+/**
+ * Time between two samples, from their timestamps when both have one
+ */
+const getSampleInterval = (from: Point, to: Point): number => {
+  if (from.t === undefined || to.t === undefined || to.t <= from.t) return BRUSH_SAMPLE_INTERVAL
+  return to.t - from.t
+}
+
+/**
+ * Works out the brush width at every point of a stroke
+ * Slow strokes are drawn at full width and fast ones thin out. Speed and
+ * smoothing are measured in time, so a 240 Hz stylus and a 60 Hz mouse draw
+ * the same gesture at the same widths
+ */
+export const getBrushWidths = (points: Point[], maxWidth: number): number[] => {
+  const minWidth = maxWidth * BRUSH_MIN_WIDTH_RATIO
+  let width = maxWidth
+  
+  return points.map((point, index) => {
+    if (index === 0) return width
+    
+    const previousPoint = points[index - 1]
+    const interval = getSampleInterval(previousPoint, point)
+    const speed = Math.min(1, distanceBetween(previousPoint, point) / interval / BRUSH_FAST_SPEED)
+    const targetWidth = maxWidth - (maxWidth - minWidth) * speed
+    const smoothing = 1 - Math.pow(1 - BRUSH_WIDTH_SMOOTHING, interval / BRUSH_SAMPLE_INTERVAL)
+    width += (targetWidth - width) * smoothing
+    return width
+  })
+}
+
+/**
+ * Pen width range under stylus pressure, relative to the rendered stroke width
+ */
+const PEN_MIN_PRESSURE_WIDTH_RATIO = 0.2
+
+/**
+ * Whether a stroke was drawn with a pressure-sensitive stylus
+ */
+export const hasPressure = (points: Point[]): boolean => {
+  return points.some(point => point.pressure !== undefined)
+}
+
+/**
+ * Works out the pen width at every point of a stroke from stylus pressure
+ * Points without pressure are drawn at full width
+ */
+export const getPressureWidths = (points: Point[], maxWidth: number): number[] => {
+  const minWidth = maxWidth * PEN_MIN_PRESSURE_WIDTH_RATIO
+  
+  return points.map(point => {
+    const pressure = point.pressure ?? 1
+    return minWidth + (maxWidth - minWidth) * pressure
+  })
+}
 
+/**
+ * Fills a variable-width stroke as one path of round stamps joined by tapered segments
+ * A single fill paints overlapping parts once, so translucent strokes stay even
+ */
+const fillVariableWidthStroke = (
+  ctx: CanvasRenderingContext2D,
+  points: Point[],
+  widths: number[]
+): void => {
+  ctx.beginPath()
+  points.forEach((point, index) => {
+    const radius = widths[index] / 2
+    ctx.moveTo(point.x + radius, point.y)
+    ctx.arc(point.x, point.y, radius, 0, 2 * Math.PI)
+    
+    if (index === 0) return
+    
+    const previous = points[index - 1]
+    const length = distanceBetween(previous, point)
+    if (length === 0) return
+    
+    // Unit normal of the segment; corners are wound the same way as the arcs
+    const nx = -(point.y - previous.y) / length
+    const ny = (point.x - previous.x) / length
+    const previousRadius = widths[index - 1] / 2
+    
+    ctx.moveTo(previous.x - nx * previousRadius, previous.y - ny * previousRadius)
+    ctx.lineTo(point.x - nx * radius, point.y - ny * radius)
+    ctx.lineTo(point.x + nx * radius, point.y + ny * radius)
+    ctx.lineTo(previous.x + nx * previousRadius, previous.y + ny * previousRadius)
+    ctx.closePath()
+  })
+  ctx.fill('nonzero')
+}
+
+/**
+ * Traces a smooth curve through points
+ * Each point becomes the control point of a quadratic curve between the midpoints
+ * on either side of it, so the curve stays close to the polyline without corners
+ */
+const traceSmoothPath = (ctx: CanvasRenderingContext2D, points: Point[]): void => {
+  const [firstPoint, ...restPoints] = points
+  ctx.moveTo(firstPoint.x, firstPoint.y)
+  
+  restPoints.forEach((point, index) => {
+    const next = restPoints[index + 1]
+    if (!next) {
+      ctx.lineTo(point.x, point.y)
+      return
+    }
+    ctx.quadraticCurveTo(point.x, point.y, (point.x + next.x) / 2, (point.y + next.y) / 2)
+  })
+}
+
+/**
+ * Traces the path for a drawing tool from its points
+ * Shared by committed shapes and the live preview so both always match
+ * Returns false when the points do not make a drawable path yet
+ */
+const traceToolPath = (
+  ctx: CanvasRenderingContext2D,
+  tool: DrawingTool,
+  points: Point[],
+  smooth = false
+): boolean => {
   ctx.beginPath()
 
-  switch (shape.type) {
-    case 'pen': {
+  switch (tool) {
+    case 'pen':
+    case 'marker':
+    case 'eraser': {
+      if (smooth) {
+        traceSmoothPath(ctx, points)
+        return true
+      }
+      
       // Freehand drawing - connect all points
-      const [firstPoint, ...restPoints] = shape.points
+      const [firstPoint, ...restPoints] = points
       ctx.moveTo(firstPoint.x, firstPoint.y)
       
       restPoints.forEach(point => {
         ctx.lineTo(point.x, point.y)
       })
-      ctx.stroke()
-      break
+      return true
+    }
+    
+    case 'line':
+    case 'arrow': {
+      // Straight line from the first to the last point
+      if (points.length < 2) return false
+      
+      const start = points[0]
+      const end = points[points.length - 1]
+      
+      ctx.moveTo(start.x, start.y)
+      ctx.lineTo(end.x, end.y)
+      return true
     }
     
     case 'rectangle': {
       // Rectangle - use first and last points as corners
-      if (shape.points.length >= 2) {
-        const start = shape.points[0]
-        const end = shape.points[shape.points.length - 1]
-        
-        const width = end.x - start.x
-        const height = end.y - start.y
-        
-        ctx.strokeRect(start.x, start.y, width, height)
-      }
-      break
+      if (points.length < 2) return false
+      
+      const start = points[0]
+      const end = points[points.length - 1]
+      
+      ctx.rect(start.x, start.y, end.x - start.x, end.y - start.y)
+      return true
     }
     
     case 'circle': {
       // Circle - use first and last points to determine radius
-      if (shape.points.length >= 2) {
-        const center = shape.points[0]
-        const edge = shape.points[shape.points.length - 1]
-        
-        const radius = Math.sqrt(
-          Math.pow(edge.x - center.x, 2) + Math.pow(edge.y - center.y, 2)
-        )
-        
-        ctx.beginPath()
-        ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI)
-        ctx.stroke()
-      }
-      break
+      if (points.length < 2) return false
+      
+      const center = points[0]
+      const edge = points[points.length - 1]
+      
+      const radius = Math.sqrt(
+        Math.pow(edge.x - center.x, 2) + Math.pow(edge.y - center.y, 2)
+      )
+      
+      ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI)
+      return true
+    }
+    
+    case 'ellipse': {
+      // Ellipse - fits the box spanned by the first and last points
+      if (points.length < 2) return false
+      
+      const start = points[0]
+      const end = points[points.length - 1]
+      
+      ctx.ellipse(
+        (start.x + end.x) / 2,
+        (start.y + end.y) / 2,
+        Math.abs(end.x - start.x) / 2,
+        Math.abs(end.y - start.y) / 2,
+        0,
+        0,
+        2 * Math.PI
+      )
+      return true
+    }
+    
+    case 'polygon': {
+      // Polygon - connect the vertices and close back to the first one
+      if (points.length < 2) return false
+      
+      const [firstPoint, ...restPoints] = points
+      ctx.moveTo(firstPoint.x, firstPoint.y)
+      
+      restPoints.forEach(point => {
+        ctx.lineTo(point.x, point.y)
+      })
+      ctx.closePath()
+      return true
     }
+    
+    default:
+      return false
   }
+}
+
+/**
+ * Angle between an arrow's shaft and each side of its head
+ */
+const ARROWHEAD_ANGLE = Math.PI / 6
+
+/**
+ * Traces an open arrowhead pointing at the tip
+ */
+const traceArrowhead = (
+  ctx: CanvasRenderingContext2D,
+  from: Point,
+  tip: Point,
+  size: number
+): void => {
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x)
+  
+  ;[-1, 1].forEach(side => {
+    ctx.moveTo(tip.x, tip.y)
+    ctx.lineTo(
+      tip.x - size * Math.cos(angle + side * ARROWHEAD_ANGLE),
+      tip.y - size * Math.sin(angle + side * ARROWHEAD_ANGLE)
+    )
+  })
+}
 
+/**
+ * Strokes the arrowheads of an arrow, always solid so dashes don't break them up
+ */
+const strokeArrowheads = (
+  ctx: CanvasRenderingContext2D,
+  points: Point[],
+  arrowheads: Arrowheads
+): void => {
+  const start = points[0]
+  const end = points[points.length - 1]
+  if (distanceBetween(start, end) === 0) return
+  
+  // Heads grow with the stroke so thick arrows stay readable
+  const size = Math.max(10, ctx.lineWidth * 4)
+  
+  ctx.setLineDash([])
+  ctx.beginPath()
+  if (arrowheads !== 'start') traceArrowhead(ctx, start, end, size)
+  if (arrowheads !== 'end') traceArrowhead(ctx, end, start, size)
+  ctx.stroke()
+}
+
+/**
+ * Paints a tool's geometry - the fill first, then the stroke on top of it
+ */
+const paintToolGeometry = (
+  ctx: CanvasRenderingContext2D,
+  tool: DrawingTool,
+  points: Point[],
+  options: ShapeOptions
+): void => {
+  if (tool === 'text') {
+    fillTextLines(ctx, points[0], options)
+    return
+  }
+
+  // Brushes and pressure-sensitive pens vary their width along the stroke,
+  // so they are filled rather than stroked (dashed pens keep an even stroke)
+  if (tool === 'brush') {
+    fillVariableWidthStroke(ctx, points, getBrushWidths(points, ctx.lineWidth))
+    return
+  }
+  if (tool === 'pen' && hasPressure(points) && ctx.getLineDash().length === 0) {
+    fillVariableWidthStroke(ctx, points, getPressureWidths(points, ctx.lineWidth))
+    return
+  }
+
+  // The whole stroke is one path, so marker ink never darkens where it overlaps itself
+  if (!traceToolPath(ctx, tool, points, options.smooth)) return
+
+  const fillColor = options.fillColor ?? NO_FILL
+  if (fillColor !== NO_FILL && isClosedShapeTool(tool)) {
+    ctx.fillStyle = fillColor
+    ctx.fill()
+  }
+  ctx.stroke()
+  
+  if (tool === 'arrow') {
+    strokeArrowheads(ctx, points, options.arrowheads ?? DEFAULT_ARROWHEADS)
+  }
+}
+
+/**
+ * Renders a single shape on the canvas context
+ */
+export const renderShape = (ctx: CanvasRenderingContext2D, shape: Shape): void => {
+  if (shape.points.length === 0) return
+
+  ctx.save()
+  if (shape.rotation) {
+    // Points are stored unrotated; the shape turns around the center of its bounds
+    const center = getShapeCenter(shape)
+    ctx.translate(center.x, center.y)
+    ctx.rotate(shape.rotation)
+    ctx.translate(-center.x, -center.y)
+  }
+  applyStrokeStyle(ctx, shape.color, getShapeStyle(shape), shape.type)
+  paintToolGeometry(ctx, shape.type, shape.points, shape)
   ctx.restore()
 }
 
@@ -113,123 +613,696 @@ export const renderAllShapes = (
   ctx: CanvasRenderingContext2D, 
   shapes: Shape[]
 ): void => {
-  // Clear the canvas
+  // Clear the whole canvas, whatever transform (pan/zoom) the context has
+  ctx.save()
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
   ctx.clearRect(0, 0, ctx.canvas.width, ctx.canvas.height)
+  ctx.restore()
   
   // Render each shape
   shapes.forEach(shape => renderShape(ctx, shape))
 }
 
+/**
+ * Angle step that Shift locks lines and arrows to
+ */
+export const LINE_ANGLE_STEP = Math.PI / 12
+
+/**
+ * Applies Shift/Alt drawing constraints to the path of a shape tool
+ * Used by both the preview and applyCurrentPath, so what is drawn is what gets committed.
+ * Constrained tools are defined by two points and come back as [start, end]
+ */
+export const applyDrawingConstraints = (
+  tool: DrawingTool,
+  points: Point[],
+  modifiers: DrawingModifiers
+): Point[] => {
+  if (points.length < 2 || (!modifiers.shift && !modifiers.alt)) return points
+  
+  const start = points[0]
+  let end = points[points.length - 1]
+  const dx = end.x - start.x
+  const dy = end.y - start.y
+  
+  switch (tool) {
+    case 'rectangle':
+    case 'ellipse': {
+      if (modifiers.shift) {
+        // Square box, growing towards the pointer
+        const size = Math.max(Math.abs(dx), Math.abs(dy))
+        end = {
+          ...end,
+          x: start.x + Math.sign(dx || 1) * size,
+          y: start.y + Math.sign(dy || 1) * size
+        }
+      }
+      if (modifiers.alt) {
+        // The start point is the center, so the box mirrors around it
+        return [{ ...start, x: 2 * start.x - end.x, y: 2 * start.y - end.y }, end]
+      }
+      return [start, end]
+    }
+    
+    case 'circle': {
+      if (!modifiers.shift) return points
+      // The radius follows the horizontal distance only
+      return [start, { ...end, y: start.y }]
+    }
+    
+    case 'line':
+    case 'arrow': {
+      if (!modifiers.shift) return points
+      const length = Math.hypot(dx, dy)
+      const angle = Math.round(Math.atan2(dy, dx) / LINE_ANGLE_STEP) * LINE_ANGLE_STEP
+      return [start, {
+        ...end,
+        x: start.x + length * Math.cos(angle),
+        y: start.y + length * Math.sin(angle)
+      }]
+    }
+    
+    default:
+      return points
+  }
+}
+
 /**
  * Renders the current drawing path (preview while drawing)
+ * Options are the ones the finished shape will get (see getShapeOptionsFromState),
+ * and the same drawing constraints apply
  */
 export const renderCurrentPath = (
   ctx: CanvasRenderingContext2D,
-  points: Point[],
+  path: Point[],
   color: string,
-  tool: DrawingTool
+  tool: DrawingTool,
+  options: ShapeOptions = {},
+  modifiers: DrawingModifiers = NO_DRAWING_MODIFIERS
 ): void => {
-  if (points.length === 0) return
+  if (path.length === 0) return
+  const points = applyDrawingConstraints(tool, path, modifiers)
 
   ctx.save()
-  ctx.strokeStyle = color
-  ctx.lineWidth = 2
-  ctx.lineCap = 'round'
-  ctx.lineJoin = 'round'
-  ctx.globalAlpha = 0.7 // Slightly transparent for preview
+  
+  if (tool === 'eraser') {
+    // Show the eraser trail at the width it erases
+    applyStrokeStyle(ctx, 'rgba(108, 117, 125, 0.4)', {
+      strokeWidth: ERASER_RADIUS * 2,
+      opacity: 1,
+      dash: 'solid'
+    }, tool)
+    paintToolGeometry(ctx, tool, points, {})
+  } else {
+    applyStrokeStyle(ctx, color, getShapeStyle(options), tool)
+    ctx.globalAlpha *= 0.7 // Slightly transparent for preview
+    
+    if (tool === 'polygon') {
+      // Unfinished polygons show the open outline up to the pending vertex
+      paintToolGeometry(ctx, 'pen', points, {})
+    } else {
+      paintToolGeometry(ctx, tool, points, options)
+    }
+  }
+  
+  ctx.restore()
+}
 
-  ctx.beginPath()
+// ============================================================================
+// Stroke Processing
+// ============================================================================
 
-  switch (tool) {
-    case 'pen': {
-      // Show the drawing path as it's being drawn
-      const [firstPoint, ...restPoints] = points
-      ctx.moveTo(firstPoint.x, firstPoint.y)
-      
-      restPoints.forEach(point => {
-        ctx.lineTo(point.x, point.y)
+/**
+ * Simplifies a polyline with the Ramer-Douglas-Peucker algorithm
+ * Keeps the fewest points that stay within the tolerance of the original line;
+ * the first and last points are always kept
+ */
+export const simplifyPath = (points: Point[], tolerance: number): Point[] => {
+  if (points.length <= 2 || tolerance <= 0) return points
+  
+  const keep = new Array<boolean>(points.length).fill(false)
+  keep[0] = true
+  keep[points.length - 1] = true
+  
+  // An explicit stack instead of recursion, so long strokes cannot overflow the call stack
+  const ranges: Array<[number, number]> = [[0, points.length - 1]]
+  while (ranges.length > 0) {
+    const [first, last] = ranges.pop() as [number, number]
+    
+    let farthestIndex = -1
+    let farthestDistance = tolerance
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(points[i], points[first], points[last])
+      if (distance > farthestDistance) {
+        farthestIndex = i
+        farthestDistance = distance
+      }
+    }
+    
+    if (farthestIndex !== -1) {
+      keep[farthestIndex] = true
+      ranges.push([first, farthestIndex], [farthestIndex, last])
+    }
+  }
+  
+  return points.filter((_, index) => keep[index])
+}
+
+/**
+ * Post-processes a finished freehand stroke with the current stroke settings
+ * Returns the points to store and how many were sampled while drawing
+ */
+export const processStroke = (
+  points: Point[],
+  tool: DrawingTool,
+  settings: StrokeProcessingSettings
+): { points: Point[]; rawPointCount: number } => {
+  if (!isProcessedStrokeTool(tool)) {
+    return { points, rawPointCount: points.length }
+  }
+  
+  return {
+    points: simplifyPath(points, settings.simplifyTolerance),
+    rawPointCount: points.length
+  }
+}
+
+// ============================================================================
+// Erasing
+// ============================================================================
+
+/**
+ * Radius (in canvas pixels) around the eraser path that erases
+ */
+export const ERASER_RADIUS = 10
+
+/**
+ * Samples points along a path so that no gap is larger than the step
+ * Fast drags produce sparse points, which would let the eraser skip shapes
+ */
+const densifyPath = (path: Point[], step: number): Point[] => {
+  if (path.length < 2) return path
+  
+  const samples: Point[] = [path[0]]
+  for (let i = 1; i < path.length; i++) {
+    const from = path[i - 1]
+    const to = path[i]
+    const steps = Math.max(1, Math.ceil(Math.hypot(to.x - from.x, to.y - from.y) / step))
+    
+    for (let j = 1; j <= steps; j++) {
+      samples.push({
+        x: from.x + (to.x - from.x) * (j / steps),
+        y: from.y + (to.y - from.y) * (j / steps)
       })
-      ctx.stroke()
-      break
     }
+  }
+  return samples
+}
+
+/**
+ * Bounding box of a path, widened by a margin
+ */
+const getPathBounds = (path: Point[], margin: number): Bounds => {
+  return path.reduce<Bounds>((bounds, point) => ({
+    minX: Math.min(bounds.minX, point.x - margin),
+    minY: Math.min(bounds.minY, point.y - margin),
+    maxX: Math.max(bounds.maxX, point.x + margin),
+    maxY: Math.max(bounds.maxY, point.y + margin)
+  }), { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity })
+}
+
+/**
+ * Cuts a pen stroke where the eraser passed
+ * Returns the remaining pieces; pieces shorter than two points are dropped
+ */
+const splitStrokeAlongPath = (shape: Shape, eraserPath: Point[], radius: number): Shape[] => {
+  // Only the part of the path near the stroke can cut it. Samples are at most
+  // radius / 2 apart, so a path segment with both ends outside this box is out of reach
+  const reachBounds = getPathBounds(shape.points, radius * 1.5)
+  const nearSamples = eraserPath.filter(sample => boundsContainPoint(sample, reachBounds))
+  const nearSegments = eraserPath.length === 1
+    ? [[eraserPath[0], eraserPath[0]]]
+    : eraserPath.slice(1)
+        .map((to, index) => [eraserPath[index], to])
+        .filter(([from, to]) => boundsContainPoint(from, reachBounds) || boundsContainPoint(to, reachBounds))
+  
+  const pieces: Point[][] = []
+  let currentPiece: Point[] = []
+  
+  shape.points.forEach((point, index) => {
+    const isErased = nearSegments.some(([from, to]) => distanceToSegment(point, from, to) <= radius)
+    const previousPoint = shape.points[index - 1]
+    const isSegmentCut = previousPoint !== undefined &&
+      nearSamples.some(sample => distanceToSegment(sample, previousPoint, point) <= radius)
     
-    case 'rectangle': {
-      // Show rectangle preview
-      if (points.length >= 2) {
-        const start = points[0]
-        const current = points[points.length - 1]
-        
-        const width = current.x - start.x
-        const height = current.y - start.y
-        
-        ctx.strokeRect(start.x, start.y, width, height)
-      }
-      break
+    if (isErased || isSegmentCut) {
+      if (currentPiece.length > 0) pieces.push(currentPiece)
+      currentPiece = isErased ? [] : [point]
+    } else {
+      currentPiece.push(point)
     }
+  })
+  if (currentPiece.length > 0) pieces.push(currentPiece)
+  
+  return pieces
+    .filter(piece => piece.length >= 2)
+    .map((piece, index) => ({
+      ...shape,
+      // The first piece keeps the original identity
+      id: index === 0 ? shape.id : generateShapeId(),
+      points: piece,
+      // Raw sample counts describe the whole original stroke, not its pieces
+      rawPointCount: undefined
+    }))
+}
+
+/**
+ * Finds the shapes an eraser path touches, in shapes order
+ * Only shapes whose bounds come within reach of the path are tested, and
+ * only against the samples that fall within reach of their bounds
+ */
+export const findShapesAlongPath = (
+  index: SpatialIndex,
+  eraserPath: Point[],
+  radius: number = ERASER_RADIUS
+): Shape[] => {
+  if (eraserPath.length === 0) return []
+  
+  const samples = densifyPath(eraserPath, radius / 2)
+  const maxReach = index.entries.reduce(
+    (reach, entry) => Math.max(reach, getHitReach(entry.shape, radius)),
+    0
+  )
+  
+  return querySpatialIndex(index, getPathBounds(samples, maxReach))
+    .filter(({ shape, bounds }) => {
+      const reach = getHitReach(shape, radius)
+      return samples.some(sample =>
+        boundsContainPoint(sample, bounds, reach) &&
+        hitTestShape(shape, sample, { tolerance: radius, includeInterior: false }, bounds)
+      )
+    })
+    .map(entry => entry.shape)
+}
+
+/**
+ * Erases the given shapes along an eraser path: removes them, or in split mode
+ * cuts freehand strokes where the path crossed them
+ * Returns the original array when nothing changed
+ */
+export const eraseTouchedShapes = (
+  shapes: Shape[],
+  touchedIds: ReadonlySet<string>,
+  eraserPath: Point[],
+  mode: EraserMode,
+  radius: number = ERASER_RADIUS
+): Shape[] => {
+  if (touchedIds.size === 0) return shapes
+  
+  const samples = densifyPath(eraserPath, radius / 2)
+  let hasChanged = false
+  
+  const nextShapes = shapes.flatMap(shape => {
+    if (!touchedIds.has(shape.id)) return [shape]
     
-    case 'circle': {
-      // Show circle preview
-      if (points.length >= 2) {
-        const center = points[0]
-        const current = points[points.length - 1]
-        
-        const radius = Math.sqrt(
-          Math.pow(current.x - center.x, 2) + Math.pow(current.y - center.y, 2)
-        )
-        
-        ctx.beginPath()
-        ctx.arc(center.x, center.y, radius, 0, 2 * Math.PI)
-        ctx.stroke()
+    if (mode === 'split' && isFreehandTool(shape.type)) {
+      // Pieces have their own centers, so they cannot share the stroke's rotation
+      const pieces = splitStrokeAlongPath(bakeRotation(shape), samples, radius)
+      // A touch by tolerance alone may leave the stroke whole
+      if (pieces.length === 1 && pieces[0].points.length === shape.points.length) {
+        return [shape]
       }
-      break
+      hasChanged = true
+      return pieces
     }
+    
+    hasChanged = true
+    return []
+  })
+  
+  return hasChanged ? nextShapes : shapes
+}
+
+/**
+ * Erases shapes along an eraser path
+ * Pass the spatial index when one is already built for these shapes
+ * Returns the original array when nothing was touched
+ */
+export const eraseAlongPath = (
+  shapes: Shape[],
+  eraserPath: Point[],
+  mode: EraserMode,
+  radius: number = ERASER_RADIUS,
+  index: SpatialIndex = buildSpatialIndex(shapes)
+): Shape[] => {
+  const touchedIds = new Set(findShapesAlongPath(index, eraserPath, radius).map(shape => shape.id))
+  return eraseTouchedShapes(shapes, touchedIds, eraserPath, mode, radius)
+}
+
+// ============================================================================
+// Multi-click Drawing
+// ============================================================================
+
+/**
+ * Tools that build a shape from several clicks instead of a single drag
+ */
+export const MULTI_CLICK_TOOLS: DrawingTool[] = ['polygon']
+
+/**
+ * Distance (in canvas pixels) from the first vertex at which a click closes a polygon
+ */
+export const POLYGON_CLOSE_DISTANCE = 8
+
+/**
+ * Checks whether a tool builds its shape from several clicks
+ */
+export const isMultiClickTool = (tool: DrawingTool): boolean => {
+  return MULTI_CLICK_TOOLS.includes(tool)
+}
+
+/**
+ * Works out the current path after the pointer goes down
+ * Multi-click paths end in a pending vertex that follows the pointer;
+ * each click pins it in place and starts a new pending vertex
+ */
+export const beginPathAt = (state: CanvasState, point: Point): Point[] => {
+  if (!isMultiClickTool(state.currentTool)) return [point]
+  if (!state.isDrawing) return [point, point]
+  
+  return [...state.currentPath.slice(0, -1), point, point]
+}
+
+/**
+ * Polygon vertices from the current path
+ * Drops the pending vertex and the repeated clicks of a double-click
+ */
+export const getPolygonVertices = (path: Point[]): Point[] => {
+  return path.slice(0, -1).filter((point, index, vertices) =>
+    index === 0 || distanceBetween(point, vertices[index - 1]) >= 1
+  )
+}
+
+/**
+ * Checks whether a click at this point should close the polygon being drawn
+ */
+export const shouldClosePolygonAt = (path: Point[], point: Point): boolean => {
+  const vertices = getPolygonVertices(path)
+  return vertices.length >= 3 &&
+    distanceBetween(point, vertices[0]) <= POLYGON_CLOSE_DISTANCE
+}
+
+// ============================================================================
+// Drawing Commit
+// ============================================================================
+
+/**
+ * Works out the shapes that result from finishing the current drawing
+ * Returns null when finishing the drawing leaves the shapes unchanged
+ * Every store calls this from finishDrawing so they commit identical results
+ */
+export const applyCurrentPath = (state: CanvasState): Shape[] | null => {
+  if (!state.isDrawing || state.currentPath.length === 0) return null
+  
+  // The fill bucket and text tool act on clicks and never draw a shape from a path
+  if (state.currentTool === 'fill' || state.currentTool === 'text') return null
+  
+  if (state.currentTool === 'polygon') {
+    const vertices = getPolygonVertices(state.currentPath)
+    if (vertices.length < 3) return null
+    
+    return [
+      ...state.shapes,
+      createShape(vertices, state.currentColor, 'polygon', getShapeOptionsFromState(state))
+    ]
+  }
+  
+  if (state.currentTool === 'eraser') {
+    // The whole drag is erased at once so it becomes a single history step
+    const nextShapes = eraseAlongPath(state.shapes, state.currentPath, state.eraserMode)
+    return nextShapes === state.shapes ? null : nextShapes
+  }
+  
+  // Freehand strokes are simplified before they are stored, which keeps history steps small
+  const constrainedPath = applyDrawingConstraints(state.currentTool, state.currentPath, state.drawingModifiers)
+  const { points, rawPointCount } = processStroke(constrainedPath, state.currentTool, state.strokeProcessing)
+  const options = getShapeOptionsFromState(state)
+  if (rawPointCount !== points.length) {
+    options.rawPointCount = rawPointCount
   }
+  
+  const newShape = createShape(points, state.currentColor, state.currentTool, options)
+  return [...state.shapes, newShape]
+}
 
-  ctx.restore()
+// ============================================================================
+// Filling
+// ============================================================================
+
+/**
+ * Finds the topmost closed shape whose inside contains a point
+ * The tolerance extends the outline, in document units
+ */
+export const findFillTarget = (shapes: Shape[], point: Point, tolerance: number = 0): Shape | null => {
+  const closedShapes = shapes.filter(shape => isClosedShapeTool(shape.type))
+  return findShapeAt(closedShapes, point, { tolerance, includeInterior: true })
+}
+
+/**
+ * Sets the fill of a closed shape
+ * Returns null when the shape is missing, not closed or already has that fill
+ */
+export const applyShapeFill = (
+  shapes: Shape[],
+  id: string,
+  fillColor: string
+): Shape[] | null => {
+  const target = shapes.find(shape => shape.id === id)
+  if (!target || !isClosedShapeTool(target.type)) return null
+  if ((target.fillColor ?? NO_FILL) === fillColor) return null
+  
+  return updateShapes(shapes, [id], shape => ({ ...shape, fillColor }))
+}
+
+// ============================================================================
+// Text Editing
+// ============================================================================
+
+/**
+ * Finds the topmost text shape under a point
+ * The tolerance is in document units, so callers scale it by the zoom
+ */
+export const findTextShapeAt = (
+  shapes: Shape[],
+  point: Point,
+  tolerance: number = DEFAULT_HIT_TOLERANCE
+): Shape | null => {
+  const textShapes = shapes.filter(shape => shape.type === 'text')
+  return findShapeAt(textShapes, point, { tolerance })
+}
+
+/**
+ * Replaces the content of a text shape; blank text removes the shape
+ * Returns null when the shape is missing, not text or unchanged
+ */
+export const applyTextEdit = (
+  shapes: Shape[],
+  id: string,
+  text: string
+): Shape[] | null => {
+  const target = shapes.find(shape => shape.id === id)
+  if (!target || target.type !== 'text' || target.text === text) return null
+  
+  if (text.trim() === '') return removeShapes(shapes, [id])
+  return updateShapes(shapes, [id], shape => ({ ...shape, text }))
 }
 
 // ============================================================================
-// History Management
+// Selection Helpers
 // ============================================================================
 
 /**
- * Adds a state to history, managing history size and index
+ * Toggles or replaces the selection with a shape ID
+ * Additive selection toggles the shape in and out of the existing selection
  */
-export const addToHistory = (
-  currentHistory: Shape[][],
-  currentIndex: number,
-  newState: Shape[],
-  maxHistorySize: number = 50
-): { history: Shape[][], historyIndex: number } => {
-  // Remove any history after current index (for when we're not at the end)
-  const truncatedHistory = currentHistory.slice(0, currentIndex + 1)
+export const toggleSelection = (
+  selectedIds: string[],
+  id: string,
+  additive: boolean
+): string[] => {
+  if (!additive) return [id]
   
-  // Add new state
-  const newHistory = [...truncatedHistory, [...newState]]
+  return selectedIds.includes(id)
+    ? selectedIds.filter(selectedId => selectedId !== id)
+    : [...selectedIds, id]
+}
+
+/**
+ * Drops selected IDs that no longer exist (e.g. after undo, redo or clear)
+ */
+export const pruneSelection = (selectedIds: string[], shapes: Shape[]): string[] => {
+  if (selectedIds.length === 0) return selectedIds
   
-  // Limit history size
-  const finalHistory = newHistory.length > maxHistorySize 
-    ? newHistory.slice(-maxHistorySize)
-    : newHistory
+  const existingIds = new Set(shapes.map(shape => shape.id))
+  return selectedIds.filter(id => existingIds.has(id))
+}
+
+/**
+ * Applies an update to every shape whose ID is in the list
+ * Unselected shapes keep their identity so renders can skip them
+ */
+export const updateShapes = (
+  shapes: Shape[],
+  ids: string[],
+  update: (shape: Shape) => Shape
+): Shape[] => {
+  const idSet = new Set(ids)
+  return shapes.map(shape => idSet.has(shape.id) ? update(shape) : shape)
+}
+
+/**
+ * Removes every shape whose ID is in the list
+ */
+export const removeShapes = (shapes: Shape[], ids: string[]): Shape[] => {
+  const idSet = new Set(ids)
+  return shapes.filter(shape => !idSet.has(shape.id))
+}
+
+/**
+ * Returns a copy of a shape moved by an offset
+ */
+export const translateShape = (shape: Shape, dx: number, dy: number): Shape => {
+  return {
+    ...shape,
+    points: shape.points.map(point => ({ ...point, x: point.x + dx, y: point.y + dy }))
+  }
+}
+
+/**
+ * Returns a copy of a shape with its rotation applied to its points
+ * Only exact for shapes drawn through their points (freehand strokes, lines, polygons)
+ */
+export const bakeRotation = (shape: Shape): Shape => {
+  if (!shape.rotation) return shape
   
+  const center = getShapeCenter(shape)
+  const angle = shape.rotation
   return {
-    history: finalHistory,
-    historyIndex: finalHistory.length - 1
+    ...shape,
+    points: shape.points.map(point => rotatePoint(point, center, angle)),
+    rotation: undefined
   }
 }
 
 /**
- * Checks if undo is possible
+ * Moves the selected shapes within the paint order (later shapes paint on top)
+ * Selected shapes keep their order among themselves.
+ * Returns null when the order does not change
  */
-export const canUndo = (historyIndex: number): boolean => {
-  return historyIndex > 0
+export const reorderShapes = (
+  shapes: Shape[],
+  ids: string[],
+  change: ZOrderChange
+): Shape[] | null => {
+  const idSet = new Set(ids)
+  const isSelected = (shape: Shape) => idSet.has(shape.id)
+  let nextShapes: Shape[]
+  
+  switch (change) {
+    case 'front':
+      nextShapes = [...shapes.filter(shape => !isSelected(shape)), ...shapes.filter(isSelected)]
+      break
+    
+    case 'back':
+      nextShapes = [...shapes.filter(isSelected), ...shapes.filter(shape => !isSelected(shape))]
+      break
+    
+    case 'forward':
+      // Walk down from the top so a selected run moves up together
+      nextShapes = [...shapes]
+      for (let i = nextShapes.length - 2; i >= 0; i--) {
+        if (isSelected(nextShapes[i]) && !isSelected(nextShapes[i + 1])) {
+          [nextShapes[i], nextShapes[i + 1]] = [nextShapes[i + 1], nextShapes[i]]
+        }
+      }
+      break
+    
+    case 'backward':
+      nextShapes = [...shapes]
+      for (let i = 1; i < nextShapes.length; i++) {
+        if (isSelected(nextShapes[i]) && !isSelected(nextShapes[i - 1])) {
+          [nextShapes[i], nextShapes[i - 1]] = [nextShapes[i - 1], nextShapes[i]]
+        }
+      }
+      break
+  }
+  
+  return nextShapes.some((shape, index) => shape !== shapes[index]) ? nextShapes : null
 }
 
+// ============================================================================
+// State Transfer
+// ============================================================================
+
+/**
+ * Extracts the plain CanvasState from a store object, dropping its actions
+ * Every field is listed, so a new state field does not compile until it is added here
+ */
+export const extractCanvasState = (store: CanvasState): CanvasState => ({
+  shapes: store.shapes,
+  currentColor: store.currentColor,
+  currentTool: store.currentTool,
+  history: store.history,
+  historyIndex: store.historyIndex,
+  historyMode: store.historyMode,
+  historyLimit: store.historyLimit,
+  isDrawing: store.isDrawing,
+  currentPath: store.currentPath,
+  selectedShapeIds: store.selectedShapeIds,
+  eraserMode: store.eraserMode,
+  currentStrokeWidth: store.currentStrokeWidth,
+  currentOpacity: store.currentOpacity,
+  currentDash: store.currentDash,
+  currentFillColor: store.currentFillColor,
+  currentArrowheads: store.currentArrowheads,
+  currentFontSize: store.currentFontSize,
+  currentFontFamily: store.currentFontFamily,
+  viewport: store.viewport,
+  grid: store.grid,
+  drawingModifiers: store.drawingModifiers,
+  strokeProcessing: store.strokeProcessing
+})
+
 /**
- * Checks if redo is possible
+ * Merges the shapes of another state into a base state
+ * Shapes already present in the base (same id) are skipped, and the merge
+ * is recorded as a single history step so it can be undone
  */
-export const canRedo = (historyIndex: number, historyLength: number): boolean => {
-  return historyIndex < historyLength - 1
+export const mergeCanvasStates = (
+  base: CanvasState,
+  other: CanvasState
+): CanvasState => {
+  const existingIds = new Set(base.shapes.map(shape => shape.id))
+  const addedShapes = other.shapes.filter(shape => !existingIds.has(shape.id))
+  
+  if (addedShapes.length === 0) return base
+  
+  const shapes = [...base.shapes, ...addedShapes]
+  const { history, historyIndex } = addToHistory(
+    base.history,
+    base.historyIndex,
+    base.shapes,
+    shapes,
+    'merge',
+    base.historyMode,
+    base.historyLimit
+  )
+  
+  return {
+    ...base,
+    shapes,
+    history,
+    historyIndex
+  }
 }
 
 // ============================================================================
@@ -269,4 +1342,30 @@ export const clampPointToBounds = (
     x: Math.max(0, Math.min(canvasWidth, point.x)),
     y: Math.max(0, Math.min(canvasHeight, point.y))
   }
+}
+
+/**
+ * Snaps a point to the nearest grid intersection
+ * A spacing of zero or less (e.g. from hydrated state) leaves the point as it is
+ */
+export const snapPointToGrid = (point: Point, spacing: number): Point => {
+  if (spacing <= 0) return point
+  
+  return {
+    ...point,
+    x: Math.round(point.x / spacing) * spacing,
+    y: Math.round(point.y / spacing) * spacing
+  }
+}
+
+/**
+ * Snaps a drawing point to the grid when the grid settings and tool call for it
+ */
+export const snapDrawingPoint = (
+  point: Point,
+  grid: GridSettings,
+  tool: DrawingTool
+): Point => {
+  if (!grid.snap || !isSnappingTool(tool)) return point
+  return snapPointToGrid(point, grid.spacing)
 }
\ No newline at end of file
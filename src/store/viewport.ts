@@ -0,0 +1,152 @@
+/**
+ * Viewport utilities for panning and zooming the canvas
+ *
+ * Shapes live in document coordinates and the viewport maps them to the
+ * screen. Input is converted with screenToDocument before it reaches the
+ * store, so the store only ever sees document coordinates.
+ */
+
+import type { Point, Shape, Viewport } from './types'
+import { DEFAULT_VIEWPORT } from './types'
+import type { Bounds } from './hitTesting'
+import { getShapeBounds } from './hitTesting'
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Zoom limits (screen pixels per document unit)
+ */
+export const MIN_ZOOM = 0.1
+export const MAX_ZOOM = 8
+
+/**
+ * Screen space (in CSS pixels) left around the shapes by zoomToFit
+ */
+export const ZOOM_TO_FIT_PADDING = 40
+
+// ============================================================================
+// Coordinate Conversion
+// ============================================================================
+
+/**
+ * Keeps a zoom level within MIN_ZOOM and MAX_ZOOM
+ */
+export const clampZoom = (zoom: number): number => {
+  return Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom))
+}
+
+/**
+ * Converts a point in screen coordinates (CSS pixels relative to the canvas)
+ * to document coordinates; other point data such as pressure is kept
+ */
+export const screenToDocument = (viewport: Viewport, point: Point): Point => ({
+  ...point,
+  x: point.x / viewport.zoom + viewport.offsetX,
+  y: point.y / viewport.zoom + viewport.offsetY
+})
+
+/**
+ * Converts a point in document coordinates to screen coordinates
+ */
+export const documentToScreen = (viewport: Viewport, point: Point): Point => ({
+  ...point,
+  x: (point.x - viewport.offsetX) * viewport.zoom,
+  y: (point.y - viewport.offsetY) * viewport.zoom
+})
+
+/**
+ * Sets a context's transform so drawing in document coordinates lands on the
+ * right device pixels; replaces any previous transform rather than adding to it
+ */
+export const applyViewportTransform = (
+  ctx: CanvasRenderingContext2D,
+  viewport: Viewport,
+  pixelRatio: number
+): void => {
+  const scale = viewport.zoom * pixelRatio
+  ctx.setTransform(scale, 0, 0, scale, -viewport.offsetX * scale, -viewport.offsetY * scale)
+}
+
+/**
+ * The part of the document visible on a canvas of the given screen size
+ */
+export const getVisibleBounds = (viewport: Viewport, width: number, height: number): Bounds => ({
+  minX: viewport.offsetX,
+  minY: viewport.offsetY,
+  maxX: viewport.offsetX + width / viewport.zoom,
+  maxY: viewport.offsetY + height / viewport.zoom
+})
+
+// ============================================================================
+// Viewport Changes
+// ============================================================================
+
+/**
+ * Pans a viewport by an offset in screen pixels
+ */
+export const panViewport = (viewport: Viewport, dx: number, dy: number): Viewport => ({
+  ...viewport,
+  offsetX: viewport.offsetX - dx / viewport.zoom,
+  offsetY: viewport.offsetY - dy / viewport.zoom
+})
+
+/**
+ * Zooms a viewport by a factor around a screen point
+ * The document point under the screen point stays where it is
+ */
+export const zoomViewportAt = (viewport: Viewport, point: Point, factor: number): Viewport => {
+  const zoom = clampZoom(viewport.zoom * factor)
+  if (zoom === viewport.zoom) return viewport
+  
+  const anchor = screenToDocument(viewport, point)
+  return {
+    offsetX: anchor.x - point.x / zoom,
+    offsetY: anchor.y - point.y / zoom,
+    zoom
+  }
+}
+
+/**
+ * Bounding box around all shapes, or null when there are none
+ */
+export const getShapesBounds = (shapes: Shape[]): Bounds | null => {
+  const nonEmptyShapes = shapes.filter(shape => shape.points.length > 0)
+  if (nonEmptyShapes.length === 0) return null
+  
+  return nonEmptyShapes.map(getShapeBounds).reduce((total, bounds) => ({
+    minX: Math.min(total.minX, bounds.minX),
+    minY: Math.min(total.minY, bounds.minY),
+    maxX: Math.max(total.maxX, bounds.maxX),
+    maxY: Math.max(total.maxY, bounds.maxY)
+  }))
+}
+
+/**
+ * Viewport that centers all shapes on a canvas of the given screen size
+ * Falls back to the default viewport when there is nothing to fit
+ */
+export const fitViewportToShapes = (
+  shapes: Shape[],
+  width: number,
+  height: number,
+  padding: number = ZOOM_TO_FIT_PADDING
+): Viewport => {
+  const bounds = getShapesBounds(shapes)
+  if (!bounds || width <= 0 || height <= 0) return DEFAULT_VIEWPORT
+  
+  // Single points and straight lines have no extent along one axis
+  const contentWidth = Math.max(bounds.maxX - bounds.minX, 1)
+  const contentHeight = Math.max(bounds.maxY - bounds.minY, 1)
+  const zoom = clampZoom(Math.min(
+    Math.max(width - padding * 2, 1) / contentWidth,
+    Math.max(height - padding * 2, 1) / contentHeight
+  ))
+  
+  return {
+    offsetX: (bounds.minX + bounds.maxX) / 2 - width / (2 * zoom),
+    offsetY: (bounds.minY + bounds.maxY) / 2 - height / (2 * zoom),
+    zoom
+  }
+}
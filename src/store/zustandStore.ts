@@ -21,14 +21,39 @@ import type {
   CanvasStore
 } from './types'
 import { 
-  initialCanvasState
+  initialCanvasState,
+  DEFAULT_VIEWPORT
 } from './types'
 import { 
   createShape,
+  applyCurrentPath,
+  toggleSelection,
+  pruneSelection,
+  updateShapes,
+  removeShapes,
+  translateShape,
+  reorderShapes,
+  applyShapeFill,
+  applyTextEdit,
+  isMultiClickTool,
+  beginPathAt
+} from './utils'
+import {
   addToHistory,
   canUndo,
-  canRedo
-} from './utils'
+  canRedo,
+  undoShapes,
+  redoShapes,
+  isValidHistoryIndex,
+  shapesAtHistoryIndex,
+  labelHistoryEntry,
+  removeHistoryBranches,
+  applyHistoryBranchSwitch,
+  trimHistory
+} from './history'
+import { panViewport, zoomViewportAt, fitViewportToShapes } from './viewport'
+import { applyShapeAssist } from './shapeRecognition'
+import { applyShapeTransform, isIdentityTransform } from './transform'
 
 /**
  * Zustand store implementation with immer middleware for immutable updates
@@ -38,7 +63,7 @@ export const useZustandStore = create<CanvasStore>()(
   // Enable subscribeWithSelector for advanced subscriptions
   subscribeWithSelector(
     // Enable immer for immutable state updates with mutable syntax
-    immer((set, get) => ({
+    immer((set) => ({
       // ============================================================================
       // Initial State
       // ============================================================================
@@ -51,20 +76,269 @@ export const useZustandStore = create<CanvasStore>()(
       addShape: (shapeData) => {
         set((state) => {
           // Create the new shape with unique ID and timestamp
-          const newShape = createShape(
-            shapeData.points,
-            shapeData.color,
-            shapeData.type
-          )
+          const { points, color, type, ...options } = shapeData
+          const newShape = createShape(points, color, type, options)
           
           // Add shape to the canvas
-          state.shapes.push(newShape)
+          const previousShapes = state.shapes
+          state.shapes = [...state.shapes, newShape]
           
           // Add to history for undo/redo functionality
           const { history, historyIndex } = addToHistory(
             state.history,
             state.historyIndex,
-            state.shapes
+            previousShapes,
+            state.shapes,
+            'add',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      // ============================================================================
+      // Selection Actions
+      // ============================================================================
+      
+      selectShape: (id, additive = false) => {
+        set((state) => {
+          if (!state.shapes.some(shape => shape.id === id)) return
+          state.selectedShapeIds = toggleSelection(state.selectedShapeIds, id, additive)
+        })
+      },
+
+      deselectAll: () => {
+        set((state) => {
+          state.selectedShapeIds = []
+        })
+      },
+
+      deleteSelected: () => {
+        set((state) => {
+          if (state.selectedShapeIds.length === 0) return
+          
+          const previousShapes = state.shapes
+          state.shapes = removeShapes(state.shapes, state.selectedShapeIds)
+          state.selectedShapeIds = []
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'delete',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      moveSelected: (dx, dy) => {
+        set((state) => {
+          if (state.selectedShapeIds.length === 0 || (dx === 0 && dy === 0)) return
+          
+          const previousShapes = state.shapes
+          state.shapes = updateShapes(
+            state.shapes,
+            state.selectedShapeIds,
+            shape => translateShape(shape, dx, dy)
+          )
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'move',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      transformSelected: (transform) => {
+        set((state) => {
+          if (state.selectedShapeIds.length === 0 || isIdentityTransform(transform)) return
+          
+          const previousShapes = state.shapes
+          state.shapes = updateShapes(
+            state.shapes,
+            state.selectedShapeIds,
+            shape => applyShapeTransform(shape, transform)
+          )
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            transform.type,
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      bringToFront: () => {
+        set((state) => {
+          const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'front')
+          if (!nextShapes) return
+          
+          const previousShapes = state.shapes
+          state.shapes = nextShapes
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'bringToFront',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      sendToBack: () => {
+        set((state) => {
+          const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'back')
+          if (!nextShapes) return
+          
+          const previousShapes = state.shapes
+          state.shapes = nextShapes
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'sendToBack',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      bringForward: () => {
+        set((state) => {
+          const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'forward')
+          if (!nextShapes) return
+          
+          const previousShapes = state.shapes
+          state.shapes = nextShapes
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'bringForward',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      sendBackward: () => {
+        set((state) => {
+          const nextShapes = reorderShapes(state.shapes, state.selectedShapeIds, 'backward')
+          if (!nextShapes) return
+          
+          const previousShapes = state.shapes
+          state.shapes = nextShapes
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'sendBackward',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      recolorSelected: (color) => {
+        set((state) => {
+          if (state.selectedShapeIds.length === 0) return
+          
+          const previousShapes = state.shapes
+          state.shapes = updateShapes(
+            state.shapes,
+            state.selectedShapeIds,
+            shape => ({ ...shape, color })
+          )
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'recolor',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      setShapeFill: (id, fillColor) => {
+        set((state) => {
+          const nextShapes = applyShapeFill(state.shapes, id, fillColor)
+          if (!nextShapes) return
+          
+          const previousShapes = state.shapes
+          state.shapes = nextShapes
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'fill',
+            state.historyMode,
+            state.historyLimit
+          )
+          state.history = history
+          state.historyIndex = historyIndex
+        })
+      },
+
+      updateText: (id, text) => {
+        set((state) => {
+          const nextShapes = applyTextEdit(state.shapes, id, text)
+          if (!nextShapes) return
+          
+          const previousShapes = state.shapes
+          state.shapes = nextShapes
+          state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
+          
+          const { history, historyIndex } = addToHistory(
+            state.history,
+            state.historyIndex,
+            previousShapes,
+            state.shapes,
+            'editText',
+            state.historyMode,
+            state.historyLimit
           )
           state.history = history
           state.historyIndex = historyIndex
@@ -84,6 +358,98 @@ export const useZustandStore = create<CanvasStore>()(
       changeTool: (tool) => {
         set((state) => {
           state.currentTool = tool
+          
+          // Drop any unfinished shape (e.g. an open polygon) from the previous tool
+          state.isDrawing = false
+          state.currentPath = []
+        })
+      },
+
+      changeEraserMode: (mode) => {
+        set((state) => {
+          state.eraserMode = mode
+        })
+      },
+
+      changeStrokeWidth: (width) => {
+        set((state) => {
+          state.currentStrokeWidth = width
+        })
+      },
+
+      changeOpacity: (opacity) => {
+        set((state) => {
+          state.currentOpacity = opacity
+        })
+      },
+
+      changeDash: (dash) => {
+        set((state) => {
+          state.currentDash = dash
+        })
+      },
+
+      changeFillColor: (fillColor) => {
+        set((state) => {
+          state.currentFillColor = fillColor
+        })
+      },
+
+      changeArrowheads: (arrowheads) => {
+        set((state) => {
+          state.currentArrowheads = arrowheads
+        })
+      },
+
+      changeFontSize: (fontSize) => {
+        set((state) => {
+          state.currentFontSize = fontSize
+        })
+      },
+
+      changeFontFamily: (fontFamily) => {
+        set((state) => {
+          state.currentFontFamily = fontFamily
+        })
+      },
+
+      changeGrid: (settings) => {
+        set((state) => {
+          Object.assign(state.grid, settings)
+        })
+      },
+
+      changeStrokeProcessing: (settings) => {
+        set((state) => {
+          Object.assign(state.strokeProcessing, settings)
+        })
+      },
+
+      // ============================================================================
+      // Viewport Actions
+      // ============================================================================
+
+      pan: (dx, dy) => {
+        set((state) => {
+          state.viewport = panViewport(state.viewport, dx, dy)
+        })
+      },
+
+      zoomAt: (point, factor) => {
+        set((state) => {
+          state.viewport = zoomViewportAt(state.viewport, point, factor)
+        })
+      },
+
+      zoomToFit: (width, height) => {
+        set((state) => {
+          state.viewport = fitViewportToShapes(state.shapes, width, height)
+        })
+      },
+
+      resetView: () => {
+        set((state) => {
+          state.viewport = DEFAULT_VIEWPORT
         })
       },
 
@@ -93,62 +459,107 @@ export const useZustandStore = create<CanvasStore>()(
       
       startDrawing: (startPoint) => {
         set((state) => {
+          state.currentPath = beginPathAt(state, startPoint)
           state.isDrawing = true
-          state.currentPath = [startPoint]
         })
       },
 
       continueDrawing: (point) => {
         set((state) => {
-          if (state.isDrawing) {
+          if (!state.isDrawing) return
+          
+          if (isMultiClickTool(state.currentTool)) {
+            // Move the pending vertex with the pointer
+            state.currentPath[state.currentPath.length - 1] = point
+          } else {
             state.currentPath.push(point)
           }
         })
       },
 
       finishDrawing: () => {
-        const state = get()
-        
-        if (state.isDrawing && state.currentPath.length > 0) {
-          // Create shape from current path
-          const shapeData = {
-            points: state.currentPath,
-            color: state.currentColor,
-            type: state.currentTool
-          }
+        set((state) => {
+          // Multi-click shapes stay open until they are closed explicitly
+          if (isMultiClickTool(state.currentTool)) return
           
-          // Add the shape and reset drawing state
-          set((draft) => {
-            // Create the new shape
-            const newShape = createShape(
-              shapeData.points,
-              shapeData.color,
-              shapeData.type
-            )
+          // Work out the shapes produced by the current path (new shape or erased shapes)
+          const nextShapes = applyCurrentPath(state)
+          
+          if (nextShapes) {
+            const previousShapes = state.shapes
+            state.shapes = nextShapes
+            state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
             
-            // Add shape to canvas
-            draft.shapes.push(newShape)
+            // Add to history
+            const { history, historyIndex } = addToHistory(
+              state.history,
+              state.historyIndex,
+              previousShapes,
+              state.shapes,
+              state.currentTool === 'eraser' ? 'erase' : 'draw',
+              state.historyMode,
+              state.historyLimit
+            )
+            state.history = history
+            state.historyIndex = historyIndex
             
-            // Reset drawing state
-            draft.isDrawing = false
-            draft.currentPath = []
+            // A recognized shape replaces the stroke in its own step, so undo restores the stroke
+            const assistedShapes = applyShapeAssist(state, state.shapes)
+            if (assistedShapes) {
+              const assisted = addToHistory(
+                state.history,
+                state.historyIndex,
+                state.shapes,
+                assistedShapes,
+                'shapeAssist',
+                state.historyMode,
+                state.historyLimit
+              )
+              state.shapes = assistedShapes
+              state.history = assisted.history
+              state.historyIndex = assisted.historyIndex
+            }
+          }
+          
+          // Reset drawing state
+          state.isDrawing = false
+          state.currentPath = []
+        })
+      },
+
+      closePolygon: () => {
+        set((state) => {
+          if (state.currentTool !== 'polygon' || !state.isDrawing) return
+          
+          const nextShapes = applyCurrentPath(state)
+          
+          if (nextShapes) {
+            const previousShapes = state.shapes
+            state.shapes = nextShapes
+            state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
             
-            // Add to history
             const { history, historyIndex } = addToHistory(
-              draft.history,
-              draft.historyIndex,
-              draft.shapes
+              state.history,
+              state.historyIndex,
+              previousShapes,
+              state.shapes,
+              'draw',
+              state.historyMode,
+              state.historyLimit
             )
-            draft.history = history
-            draft.historyIndex = historyIndex
-          })
-        } else {
-          // Just stop drawing if no path
-          set((state) => {
-            state.isDrawing = false
-            state.currentPath = []
-          })
-        }
+            state.history = history
+            state.historyIndex = historyIndex
+          }
+          
+          state.isDrawing = false
+          state.currentPath = []
+        })
+      },
+
+      setDrawingModifiers: (modifiers) => {
+        set((state) => {
+          state.drawingModifiers = modifiers
+        })
       },
 
       // ============================================================================
@@ -158,9 +569,10 @@ export const useZustandStore = create<CanvasStore>()(
       undo: () => {
         set((state) => {
           if (canUndo(state.historyIndex)) {
+            // Revert the last applied step
+            state.shapes = undoShapes(state.shapes, state.history, state.historyIndex)
             state.historyIndex -= 1
-            // Restore shapes from history
-            state.shapes = [...state.history[state.historyIndex]]
+            state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
             
             // Stop any current drawing
             state.isDrawing = false
@@ -172,9 +584,10 @@ export const useZustandStore = create<CanvasStore>()(
       redo: () => {
         set((state) => {
           if (canRedo(state.historyIndex, state.history.length)) {
+            // Reapply the next undone step
+            state.shapes = redoShapes(state.shapes, state.history, state.historyIndex)
             state.historyIndex += 1
-            // Restore shapes from history
-            state.shapes = [...state.history[state.historyIndex]]
+            state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
             
             // Stop any current drawing
             state.isDrawing = false
@@ -183,20 +596,80 @@ export const useZustandStore = create<CanvasStore>()(
         })
       },
 
+      goToHistory: (index) => {
+        set((state) => {
+          if (!isValidHistoryIndex(index, state.history.length) || index === state.historyIndex) return
+          
+          state.shapes = shapesAtHistoryIndex(state.shapes, state.history, state.historyIndex, index)
+          state.historyIndex = index
+          state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
+          
+          // Stop any current drawing
+          state.isDrawing = false
+          state.currentPath = []
+        })
+      },
+
+      setHistoryLabel: (index, label) => {
+        set((state) => {
+          const history = labelHistoryEntry(state.history, index, label)
+          if (history) state.history = history
+        })
+      },
+
+      setHistoryMode: (mode) => {
+        set((state) => {
+          state.historyMode = mode
+          if (mode === 'linear') state.history = removeHistoryBranches(state.history)
+        })
+      },
+
+      switchHistoryBranch: (branchId) => {
+        set((state) => {
+          const switched = applyHistoryBranchSwitch(state.shapes, state.history, state.historyIndex, branchId)
+          if (!switched) return
+          
+          state.shapes = switched.shapes
+          state.history = switched.history
+          state.historyIndex = switched.historyIndex
+          state.selectedShapeIds = pruneSelection(state.selectedShapeIds, state.shapes)
+          
+          // Stop any current drawing
+          state.isDrawing = false
+          state.currentPath = []
+        })
+      },
+
+      setHistoryLimit: (limit) => {
+        set((state) => {
+          const trimmed = trimHistory(state.history, state.historyIndex, limit)
+          state.historyLimit = limit
+          state.history = trimmed.history
+          state.historyIndex = trimmed.historyIndex
+        })
+      },
+
       // ============================================================================
       // Canvas Management Actions
       // ============================================================================
       
       clear: () => {
         set((state) => {
+          const previousShapes = state.shapes
+          
           // Clear all shapes
           state.shapes = []
+          state.selectedShapeIds = []
           
           // Add to history
           const { history, historyIndex } = addToHistory(
             state.history,
             state.historyIndex,
-            state.shapes
+            previousShapes,
+            state.shapes,
+            'clear',
+            state.historyMode,
+            state.historyLimit
           )
           state.history = history
           state.historyIndex = historyIndex
@@ -208,8 +681,19 @@ export const useZustandStore = create<CanvasStore>()(
       },
 
       reset: () => {
+        // The history limit is a saved setting, so it survives a reset
+        set((state) => ({
+          ...initialCanvasState,
+          historyLimit: state.historyLimit
+        }))
+      },
+
+      hydrate: (canvasState) => {
         set(() => ({
-          ...initialCanvasState
+          ...canvasState,
+          // Never carry an unfinished stroke into another store
+          isDrawing: false,
+          currentPath: []
         }))
       }
     }))
@@ -229,8 +713,23 @@ export const useZustandStore = create<CanvasStore>()(
 export const useZustandShapes = () => useZustandStore(state => state.shapes)
 export const useZustandCurrentColor = () => useZustandStore(state => state.currentColor)
 export const useZustandCurrentTool = () => useZustandStore(state => state.currentTool)
+export const useZustandEraserMode = () => useZustandStore(state => state.eraserMode)
+export const useZustandCurrentStrokeWidth = () => useZustandStore(state => state.currentStrokeWidth)
+export const useZustandCurrentOpacity = () => useZustandStore(state => state.currentOpacity)
+export const useZustandCurrentDash = () => useZustandStore(state => state.currentDash)
+export const useZustandCurrentFillColor = () => useZustandStore(state => state.currentFillColor)
+export const useZustandCurrentArrowheads = () => useZustandStore(state => state.currentArrowheads)
+export const useZustandCurrentFontSize = () => useZustandStore(state => state.currentFontSize)
+export const useZustandCurrentFontFamily = () => useZustandStore(state => state.currentFontFamily)
+export const useZustandViewport = () => useZustandStore(state => state.viewport)
+export const useZustandGrid = () => useZustandStore(state => state.grid)
+export const useZustandStrokeProcessing = () => useZustandStore(state => state.strokeProcessing)
+export const useZustandHistoryMode = () => useZustandStore(state => state.historyMode)
+export const useZustandHistoryLimit = () => useZustandStore(state => state.historyLimit)
+export const useZustandDrawingModifiers = () => useZustandStore(state => state.drawingModifiers)
 export const useZustandIsDrawing = () => useZustandStore(state => state.isDrawing)
 export const useZustandCurrentPath = () => useZustandStore(state => state.currentPath)
+export const useZustandSelectedShapeIds = () => useZustandStore(state => state.selectedShapeIds)
 
 // History selectors
 export const useZustandCanUndo = () => useZustandStore(state => canUndo(state.historyIndex))
@@ -240,13 +739,47 @@ export const useZustandCanRedo = () => useZustandStore(state => canRedo(state.hi
 export const useZustandAddShape = () => useZustandStore(state => state.addShape)
 export const useZustandChangeColor = () => useZustandStore(state => state.changeColor)
 export const useZustandChangeTool = () => useZustandStore(state => state.changeTool)
+export const useZustandChangeEraserMode = () => useZustandStore(state => state.changeEraserMode)
+export const useZustandChangeStrokeWidth = () => useZustandStore(state => state.changeStrokeWidth)
+export const useZustandChangeOpacity = () => useZustandStore(state => state.changeOpacity)
+export const useZustandChangeDash = () => useZustandStore(state => state.changeDash)
+export const useZustandChangeFillColor = () => useZustandStore(state => state.changeFillColor)
+export const useZustandChangeArrowheads = () => useZustandStore(state => state.changeArrowheads)
+export const useZustandChangeFontSize = () => useZustandStore(state => state.changeFontSize)
+export const useZustandChangeFontFamily = () => useZustandStore(state => state.changeFontFamily)
+export const useZustandChangeGrid = () => useZustandStore(state => state.changeGrid)
+export const useZustandChangeStrokeProcessing = () => useZustandStore(state => state.changeStrokeProcessing)
+export const useZustandPan = () => useZustandStore(state => state.pan)
+export const useZustandZoomAt = () => useZustandStore(state => state.zoomAt)
+export const useZustandZoomToFit = () => useZustandStore(state => state.zoomToFit)
+export const useZustandResetView = () => useZustandStore(state => state.resetView)
 export const useZustandStartDrawing = () => useZustandStore(state => state.startDrawing)
 export const useZustandContinueDrawing = () => useZustandStore(state => state.continueDrawing)
 export const useZustandFinishDrawing = () => useZustandStore(state => state.finishDrawing)
+export const useZustandClosePolygon = () => useZustandStore(state => state.closePolygon)
+export const useZustandSetDrawingModifiers = () => useZustandStore(state => state.setDrawingModifiers)
 export const useZustandUndo = () => useZustandStore(state => state.undo)
 export const useZustandRedo = () => useZustandStore(state => state.redo)
+export const useZustandGoToHistory = () => useZustandStore(state => state.goToHistory)
+export const useZustandSetHistoryLabel = () => useZustandStore(state => state.setHistoryLabel)
+export const useZustandSetHistoryMode = () => useZustandStore(state => state.setHistoryMode)
+export const useZustandSwitchHistoryBranch = () => useZustandStore(state => state.switchHistoryBranch)
+export const useZustandSetHistoryLimit = () => useZustandStore(state => state.setHistoryLimit)
+export const useZustandSelectShape = () => useZustandStore(state => state.selectShape)
+export const useZustandDeselectAll = () => useZustandStore(state => state.deselectAll)
+export const useZustandDeleteSelected = () => useZustandStore(state => state.deleteSelected)
+export const useZustandMoveSelected = () => useZustandStore(state => state.moveSelected)
+export const useZustandTransformSelected = () => useZustandStore(state => state.transformSelected)
+export const useZustandBringToFront = () => useZustandStore(state => state.bringToFront)
+export const useZustandSendToBack = () => useZustandStore(state => state.sendToBack)
+export const useZustandBringForward = () => useZustandStore(state => state.bringForward)
+export const useZustandSendBackward = () => useZustandStore(state => state.sendBackward)
+export const useZustandRecolorSelected = () => useZustandStore(state => state.recolorSelected)
+export const useZustandSetShapeFill = () => useZustandStore(state => state.setShapeFill)
+export const useZustandUpdateText = () => useZustandStore(state => state.updateText)
 export const useZustandClear = () => useZustandStore(state => state.clear)
 export const useZustandReset = () => useZustandStore(state => state.reset)
+export const useZustandHydrate = () => useZustandStore(state => state.hydrate)
 
 // ============================================================================
 // Development Helpers